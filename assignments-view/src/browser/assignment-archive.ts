@@ -0,0 +1,49 @@
+import * as JSZip from 'jszip';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import URI from '@theia/core/lib/common/uri';
+import { StarterManifest } from './starter-manifest';
+
+/**
+ * Zips the assignment directory with its subdirectories, leaving out the files only the generator uses.
+ */
+export async function zipAssignmentDirectory(fileService: FileService, dirURI: string): Promise<Blob> {
+    const zip = new JSZip();
+    await addDirectory(fileService, zip, new URI(dirURI), '');
+
+    return zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 9 }
+    });
+}
+
+async function addDirectory(fileService: FileService, zip: JSZip, dirURI: URI, prefix: string): Promise<void> {
+    const dir = await fileService.resolve(dirURI);
+    const children = dir.children ?? [];
+
+    for (const child of children) {
+        const path = `${prefix}${child.name}`;
+        if (child.isDirectory) {
+            await addDirectory(fileService, zip, child.resource, `${path}/`);
+        } else if (path !== StarterManifest.FILENAME) {
+            const { value } = await fileService.readFile(child.resource);
+            zip.file(path, value.buffer);
+        }
+    }
+}
+
+/**
+ * Lets the browser save the content as a file in its downloads.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // The download only starts after the click is handled
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,65 @@
+export type DeadlineState = 'none' | 'open' | 'due-soon' | 'overdue';
+
+export namespace AssignmentDeadline {
+
+    const MINUTE_MS = 60 * 1000;
+    const HOUR_MS = 60 * MINUTE_MS;
+    const DAY_MS = 24 * HOUR_MS;
+
+    // Deadlines closer than this are highlighted
+    const DUE_SOON_MS = 2 * DAY_MS;
+
+    export function getState(assignment: Assignment, now: number = Date.now()): DeadlineState {
+        if (assignment.deadline === undefined) {
+            return 'none';
+        }
+        const remaining = assignment.deadline - now;
+        if (remaining <= 0) {
+            return 'overdue';
+        }
+        return remaining <= DUE_SOON_MS ? 'due-soon' : 'open';
+    }
+
+    /**
+     * Short countdown for the tree, e.g. `3d 4h left` or `overdue`.
+     */
+    export function formatShort(assignment: Assignment, now: number = Date.now()): string {
+        if (assignment.deadline === undefined) {
+            return '';
+        }
+        const remaining = assignment.deadline - now;
+        if (remaining <= 0) {
+            return 'overdue';
+        }
+        if (remaining >= DAY_MS) {
+            return `${Math.floor(remaining / DAY_MS)}d ${Math.floor(remaining % DAY_MS / HOUR_MS)}h left`;
+        }
+        if (remaining >= HOUR_MS) {
+            return `${Math.floor(remaining / HOUR_MS)}h ${Math.floor(remaining % HOUR_MS / MINUTE_MS)}m left`;
+        }
+        return `${Math.ceil(remaining / MINUTE_MS)}m left`;
+    }
+
+    /**
+     * Countdown with seconds, e.g. `2 days 03:04:05 left` or `overdue by 1 day 02:00:00`.
+     */
+    export function formatCountdown(assignment: Assignment, now: number = Date.now()): string {
+        if (assignment.deadline === undefined) {
+            return 'No deadline';
+        }
+        const remaining = assignment.deadline - now;
+        const duration = formatDuration(Math.abs(remaining));
+        return remaining > 0 ? `${duration} left` : `Overdue by ${duration}`;
+    }
+
+    function formatDuration(ms: number): string {
+        const days = Math.floor(ms / DAY_MS);
+        const hours = Math.floor(ms % DAY_MS / HOUR_MS);
+        const minutes = Math.floor(ms % HOUR_MS / MINUTE_MS);
+        const seconds = Math.floor(ms % MINUTE_MS / 1000);
+
+        const time = [hours, minutes, seconds].map(value => ('0' + value).slice(-2)).join(':');
+        return days > 0 ? `${days} ${days === 1 ? 'day' : 'days'} ${time}` : time;
+    }
+
+}
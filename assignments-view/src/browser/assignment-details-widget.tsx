@@ -0,0 +1,161 @@
+import * as React from 'react';
+import { injectable, inject, postConstruct } from 'inversify';
+import { ReactWidget } from '@theia/core/lib/browser/widgets/react-widget';
+import { Disposable } from '@theia/core';
+import * as MarkdownIt from 'markdown-it';
+import * as DOMPurify from 'dompurify';
+import { AssignmentsDataProvider } from './assignments-data-provider';
+import { AssignmentDeadline } from './assignment-deadline';
+
+interface AssignmentDetailsState {
+    assignment: Assignment | undefined;
+    description: AssignmentDescription | undefined;
+    isLoadingDescription: boolean;
+    descriptionError: string | undefined;
+}
+
+/**
+ * Shows the task text, deadline and points of the assignment selected in the Assignments view.
+ */
+@injectable()
+export class AssignmentDetailsWidget extends ReactWidget {
+
+    static readonly ID = 'assignments-view:details';
+    static readonly LABEL = 'Assignment Details';
+
+    private readonly COUNTDOWN_INTERVAL_MS = 1000;
+
+    private state: AssignmentDetailsState = {
+        assignment: undefined,
+        description: undefined,
+        isLoadingDescription: false,
+        descriptionError: undefined,
+    };
+
+    private countdownTimer: number | undefined;
+    private markdown = new MarkdownIt();
+
+    @inject(AssignmentsDataProvider)
+    protected readonly dataProvider!: AssignmentsDataProvider;
+
+    @postConstruct()
+    protected init(): void {
+        this.id = AssignmentDetailsWidget.ID;
+        this.title.label = AssignmentDetailsWidget.LABEL;
+        this.title.caption = AssignmentDetailsWidget.LABEL;
+        this.title.closable = true;
+        this.title.iconClass = 'fa fa-info-circle';
+        this.toDispose.push(Disposable.create(() => this.stopCountdown()));
+        this.update();
+    }
+
+    public async setAssignment(assignment: Assignment) {
+        if (assignment === this.state.assignment) {
+            return;
+        }
+
+        this.setState(state => {
+            state.assignment = assignment;
+            state.description = assignment.description;
+            state.isLoadingDescription = assignment.description === undefined;
+            state.descriptionError = undefined;
+        });
+        this.title.label = `${AssignmentDetailsWidget.LABEL}: ${assignment.name}`;
+        this.startCountdown();
+
+        try {
+            const description = await this.dataProvider.getAssignmentDescription(assignment);
+            if (assignment === this.state.assignment) {
+                this.setState(state => {
+                    state.description = description;
+                    state.isLoadingDescription = false;
+                });
+            }
+        } catch (err) {
+            console.log(`Could not fetch the description of ${assignment.path}: ${err}`);
+            if (assignment === this.state.assignment) {
+                this.setState(state => {
+                    state.isLoadingDescription = false;
+                    state.descriptionError = 'The task text could not be loaded.';
+                });
+            }
+        }
+    }
+
+    private setState(update: (state: AssignmentDetailsState) => void) {
+        update(this.state);
+        this.update();
+    }
+
+    private startCountdown() {
+        this.stopCountdown();
+        if (this.state.assignment?.deadline !== undefined) {
+            this.countdownTimer = window.setInterval(() => this.update(), this.COUNTDOWN_INTERVAL_MS);
+        }
+    }
+
+    private stopCountdown() {
+        if (this.countdownTimer !== undefined) {
+            window.clearInterval(this.countdownTimer);
+            this.countdownTimer = undefined;
+        }
+    }
+
+    protected render(): React.ReactNode {
+        const assignment = this.state.assignment;
+        if (assignment === undefined) {
+            return <div className='assignment-details'>
+                <p className='assignment-details-empty'>Select an assignment in the Assignments view.</p>
+            </div>;
+        }
+
+        return <div className='assignment-details'>
+            <h2>{assignment.name}</h2>
+            {this.renderFacts(assignment)}
+            {this.renderDescription()}
+        </div>;
+    }
+
+    private renderFacts(assignment: Assignment): React.ReactNode {
+        const deadlineState = AssignmentDeadline.getState(assignment);
+        return <table className='assignment-details-facts'>
+            <tbody>
+                <tr>
+                    <td>Deadline</td>
+                    <td>{assignment.deadline !== undefined ? new Date(assignment.deadline).toLocaleString() : 'None'}</td>
+                </tr>
+                {assignment.deadline !== undefined &&
+                    <tr>
+                        <td>Time left</td>
+                        <td className={`assignment-deadline assignment-deadline-${deadlineState}`}>
+                            {AssignmentDeadline.formatCountdown(assignment)}
+                        </td>
+                    </tr>
+                }
+                <tr>
+                    <td>Points</td>
+                    <td>{assignment.maxPoints !== undefined ? assignment.maxPoints : '–'}</td>
+                </tr>
+            </tbody>
+        </table>;
+    }
+
+    private renderDescription(): React.ReactNode {
+        if (this.state.isLoadingDescription) {
+            return <p className='assignment-details-empty'>Loading task text...</p>;
+        }
+        if (this.state.descriptionError !== undefined) {
+            return <p className='assignment-details-error'>{this.state.descriptionError}</p>;
+        }
+
+        const description = this.state.description;
+        if (description === undefined) {
+            return <p className='assignment-details-empty'>This assignment has no task text.</p>;
+        }
+
+        const html = description.format === 'markdown' ? this.markdown.render(description.text) : description.text;
+        // The text comes from the server, scripts and event handlers in it must not run in the IDE
+        return <div className='assignment-details-description' dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(html) }} />;
+    }
+
+}
@@ -0,0 +1,80 @@
+export interface AssignmentFilter {
+    query: string;
+    notStarted: boolean;
+    hasAutotests: boolean;
+}
+
+export namespace AssignmentFilter {
+
+    export const EMPTY: AssignmentFilter = { query: '', notStarted: false, hasAutotests: false };
+
+    const AUTOTEST_FILENAME = '.autotest2';
+
+    export function isActive(filter: AssignmentFilter): boolean {
+        return filter.query.trim() !== '' || filter.notStarted || filter.hasAutotests;
+    }
+
+    /**
+     * Copy of the directory with only the matching assignments, `undefined` if none match.
+     * Everything inside a directory whose name matches the query is kept, subject to the other filters.
+     */
+    export function apply(
+        directory: Directory,
+        filter: AssignmentFilter,
+        isStarted: (assignment: Assignment) => boolean,
+        parentMatches: boolean = false
+    ): Directory | undefined {
+        const nameMatches = parentMatches || fuzzyMatch(filter.query, directory.name);
+
+        const subdirectories = directory.subdirectories
+            .map(dir => apply(dir, filter, isStarted, nameMatches))
+            .filter((dir): dir is Directory => dir !== undefined);
+        const assignments = directory.assignments
+            .filter(assignment => nameMatches || fuzzyMatch(filter.query, assignment.name))
+            .filter(assignment => !filter.notStarted || !isStarted(assignment))
+            .filter(assignment => !filter.hasAutotests || hasAutotests(assignment));
+
+        if (subdirectories.length === 0 && assignments.length === 0) {
+            return undefined;
+        }
+        return { ...directory, subdirectories, assignments };
+    }
+
+    export function hasAutotests(assignment: Assignment): boolean {
+        return assignment.files.some(file => file.filename === AUTOTEST_FILENAME);
+    }
+
+}
+
+/**
+ * Every word of the query has to appear in the text with its letters in order, e.g. `zad 3` matches `Zadaća 3`.
+ * Case and diacritics are ignored.
+ */
+export function fuzzyMatch(query: string, text: string): boolean {
+    const normalizedText = normalize(text);
+    return normalize(query)
+        .split(/\s+/)
+        .filter(word => word !== '')
+        .every(word => isSubsequence(word, normalizedText));
+}
+
+function normalize(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase();
+}
+
+function isSubsequence(word: string, text: string): boolean {
+    let position = 0;
+    for (const char of word) {
+        position = text.indexOf(char, position);
+        if (position < 0) {
+            return false;
+        }
+        position++;
+    }
+    return true;
+}
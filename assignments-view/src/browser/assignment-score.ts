@@ -0,0 +1,57 @@
+export interface AssignmentScore {
+    passed: number;
+    total: number;
+}
+
+export type AssignmentScoreState = 'untested' | 'failing' | 'passing';
+
+export interface DirectoryScore extends AssignmentScore {
+    tested: number;
+    assignments: number;
+    // Some tested assignment does not pass all of its tests
+    hasFailing: boolean;
+}
+
+export namespace AssignmentScore {
+
+    export function getState(score: AssignmentScore | undefined): AssignmentScoreState {
+        if (score === undefined) {
+            return 'untested';
+        }
+        return score.passed === score.total ? 'passing' : 'failing';
+    }
+
+    /**
+     * Sums the scores of all assignments in the directory and its subdirectories.
+     */
+    export function rollUp(directory: Directory, getScore: (assignment: Assignment) => AssignmentScore | undefined): DirectoryScore {
+        const assignments = collectAssignments(directory);
+        const scores = assignments
+            .map(assignment => getScore(assignment))
+            .filter((score): score is AssignmentScore => score !== undefined);
+
+        return {
+            passed: scores.reduce((sum, score) => sum + score.passed, 0),
+            total: scores.reduce((sum, score) => sum + score.total, 0),
+            tested: scores.length,
+            assignments: assignments.length,
+            hasFailing: scores.some(score => score.passed !== score.total),
+        };
+    }
+
+    export function getDirectoryState(score: DirectoryScore): AssignmentScoreState {
+        if (score.tested === 0) {
+            return 'untested';
+        }
+        return score.hasFailing ? 'failing' : 'passing';
+    }
+
+}
+
+export function collectAssignments(directory: Directory): Assignment[] {
+    const subdirectories = directory.subdirectories ?? [];
+    return subdirectories.reduce(
+        (assignments, subdirectory) => [...assignments, ...collectAssignments(subdirectory)],
+        directory.assignments ?? []
+    );
+}
@@ -1,54 +1,183 @@
+import { injectable, inject } from 'inversify';
+import { StorageService } from '@theia/core/lib/browser/storage-service';
+import { EndpointConfiguration } from 'top-bar/lib/browser/endpoint-configuration';
+import {
+    decodeCourseResponse,
+    decodeCoursesResponse,
+    WsAssignment,
+    WsDecodingContext,
+    WsTutorial,
+    WsValidationError,
+    WsValidationIssue
+} from './ws-schema';
+
+export interface AssignmentsCatalogue {
+    directories: Directory[];
+    // Time of the last successful fetch, in milliseconds since the epoch
+    updatedAt: number;
+}
+
+// Last response to a ws.php request, with the validators needed to revalidate it
+interface CachedResponse {
+    etag?: string;
+    lastModified?: string;
+    data: any;
+}
+
+type FetchJSON = (url: string) => Promise<any>;
+
+@injectable()
 export class AssignmentsDataProvider {
 
-    private static readonly BASE_URL = '';
+    private readonly CATALOGUE_STORAGE_KEY = 'assignments-view:catalogue';
+    private readonly RESPONSES_STORAGE_KEY = 'assignments-view:responses';
+
+    // Invalid data skipped by the last `getCoursesData`
+    private validationIssues: WsValidationIssue[] = [];
+
+    constructor(
+        @inject(StorageService) private readonly storageService: StorageService,
+        @inject(EndpointConfiguration) private readonly endpoints: EndpointConfiguration,
+    ) {}
+
+    private makeURL(query: string): string {
+        return this.endpoints.getURL('assignments', query);
+    }
+
+    /**
+     * Catalogue saved by the last successful `getCoursesData`, `undefined` if it was never fetched.
+     */
+    public async getCachedCoursesData(): Promise<AssignmentsCatalogue | undefined> {
+        return this.storageService.getData<AssignmentsCatalogue>(this.CATALOGUE_STORAGE_KEY);
+    }
 
-    private makeURL(url: string): string {
-        return `${AssignmentsDataProvider.BASE_URL}${url}`;
+    public getValidationIssues(): WsValidationIssue[] {
+        return this.validationIssues;
     }
 
     public async getCoursesData(): Promise<Directory[]> {
-        const coursesInfo: CourseInfo[] = await this.getStudentCoursesInfo();
+        this.validationIssues = [];
+        const cachedResponses = await this.storageService.getData<Record<string, CachedResponse>>(this.RESPONSES_STORAGE_KEY, {});
+        const responses: Record<string, CachedResponse> = {};
+        const fetchJSON: FetchJSON = url => this.fetchJSON(url, cachedResponses, responses);
+
+        const coursesInfo: CourseInfo[] = await this.getStudentCoursesInfo(fetchJSON);
+
+        const coursePromises = coursesInfo.map((course: CourseInfo) => this.getCourseDirectory(course, fetchJSON));
+        const courseDirectories: Directory[] = (await Promise.all(coursePromises))
+            .filter((dir): dir is Directory => dir !== undefined);
 
-        const coursePromises = coursesInfo.map((course: CourseInfo) => this.getCourseDirectory(course));
-        const courseDirectories: Directory[] = await Promise.all(coursePromises);
+        this.validationIssues.forEach(issue => console.log(`Invalid data from ${issue.url} at ${issue.path}: ${issue.message}`));
+
+        // Only responses of current courses are kept, so courses the student left do not pile up
+        await this.storageService.setData(this.RESPONSES_STORAGE_KEY, responses);
+        await this.storageService.setData<AssignmentsCatalogue>(this.CATALOGUE_STORAGE_KEY, {
+            directories: courseDirectories,
+            updatedAt: Date.now(),
+        });
 
         return Promise.resolve(courseDirectories);
     }
 
-    private async getStudentCoursesInfo(): Promise<CourseInfo[]> {
-        const url = this.makeURL('/assignment/ws.php?action=courses');
+    /**
+     * Sends the validators of the cached response and reuses its data if the server answers 304 Not Modified.
+     */
+    private async fetchJSON(url: string, cachedResponses: Record<string, CachedResponse>, responses: Record<string, CachedResponse>): Promise<any> {
+        const cached = cachedResponses[url];
+        const headers: Record<string, string> = {};
+        if (cached?.etag) {
+            headers['If-None-Match'] = cached.etag;
+        }
+        if (cached?.lastModified) {
+            headers['If-Modified-Since'] = cached.lastModified;
+        }
+
+        const res = await fetch(url, {
+            credentials: 'include',
+            headers
+        });
+
+        if (res.status === 304 && cached !== undefined) {
+            responses[url] = cached;
+            return cached.data;
+        }
+        if (!res.ok) {
+            throw new Error(`${url} responded with ${res.status} ${res.statusText}`);
+        }
+
+        const data = await res.json();
+        responses[url] = {
+            etag: res.headers.get('ETag') ?? undefined,
+            lastModified: res.headers.get('Last-Modified') ?? undefined,
+            data
+        };
+        return data;
+    }
+
+    /**
+     * Fetches the task text of the assignment once and keeps it on the assignment.
+     */
+    public async getAssignmentDescription(assignment: Assignment): Promise<AssignmentDescription | undefined> {
+        if (assignment.description !== undefined) {
+            return assignment.description;
+        }
+
+        const url = this.makeURL(`action=getTaskText&course=${assignment.courseID}&task_direct=${assignment.id}`);
         const res = await fetch(url, {
             credentials: 'include'
         });
+        if (!res.ok) {
+            throw new Error(`${url} responded with ${res.status} ${res.statusText}`);
+        }
 
         const json = await res.json();
+        if (typeof json.data?.text !== 'string' || json.data.text === '') {
+            return undefined;
+        }
 
-        return json.data.map((course: any) => ({
-            id: course.id,
-            name: course.name,
-            abbrev: course.abbrev,
-            external: course.external,
-        }));
+        assignment.description = {
+            format: json.data.format === 'html' ? 'html' : 'markdown',
+            text: json.data.text
+        };
+        return assignment.description;
     }
 
-    private async getCourseDirectory(courseInfo: CourseInfo): Promise<Directory> {
-        return this
-            .getCourseData(courseInfo)
-            .then(courseData => this.mapCourseDataToCourseDirectory(courseInfo, courseData));
+    private async getStudentCoursesInfo(fetchJSON: FetchJSON): Promise<CourseInfo[]> {
+        const url = this.makeURL('action=courses');
+        const json = await fetchJSON(url);
+
+        // Without the list of courses there is nothing to show, so this one fails as a whole
+        const context = new WsDecodingContext(url);
+        const courses = decodeCoursesResponse(json, context);
+        this.validationIssues.push(...context.issues);
+        return courses;
     }
 
-    private async getCourseData(courseInfo: CourseInfo): Promise<any> {
+    /**
+     * Returns `undefined` if the course can not be shown, other courses are still shown.
+     */
+    private async getCourseDirectory(courseInfo: CourseInfo, fetchJSON: FetchJSON): Promise<Directory | undefined> {
         const external = courseInfo.external ? 'external=1' : '';
-        const courseURL = (id: string) => this.makeURL(`/assignment/ws.php?action=assignments&${external}&course=${id}`);
-
-        return fetch(courseURL(courseInfo.id), {
-            credentials: 'include'
-        }).then(res => res.json())
+        const url = this.makeURL(`action=assignments&${external}&course=${courseInfo.id}`);
+        const json = await fetchJSON(url);
+
+        const context = new WsDecodingContext(url);
+        try {
+            const tutorials = decodeCourseResponse(json, context);
+            return this.mapCourseDataToCourseDirectory(courseInfo, tutorials);
+        } catch (err) {
+            if (!(err instanceof WsValidationError)) {
+                throw err;
+            }
+            context.issues.push({ url, path: err.path, message: `${err.reason}, skipped course ${courseInfo.name}` });
+            return undefined;
+        } finally {
+            this.validationIssues.push(...context.issues);
+        }
     }
 
-    private mapCourseDataToCourseDirectory(courseInfo: CourseInfo, courseData: any): Directory {
-        const tutorials = courseData.data ?? [];
-        const subdirectories = tutorials.map((t: any) => this.mapTutorialDataToDirectory(courseInfo.id, t));
+    private mapCourseDataToCourseDirectory(courseInfo: CourseInfo, tutorials: WsTutorial[]): Directory {
+        const subdirectories = tutorials.map(t => this.mapTutorialDataToDirectory(courseInfo.id, t));
 
         return {
             id: courseInfo.id,
@@ -59,9 +188,9 @@ export class AssignmentsDataProvider {
         };
     }
 
-    private mapTutorialDataToDirectory(courseID: string, tutorial: any): Directory {
+    private mapTutorialDataToDirectory(courseID: string, tutorial: WsTutorial): Directory {
         const path = tutorial.path;
-        const assignments = (tutorial.items ?? []).map((a: any) => this.mapAssignmentData(courseID, a));
+        const assignments = tutorial.items.map(a => this.mapAssignmentData(courseID, a));
 
         return {
             id: path,
@@ -72,25 +201,30 @@ export class AssignmentsDataProvider {
         }
     }
 
-    private mapAssignmentData(courseID: string, assignment: any): Assignment {
-        const path = assignment.path;
-        const files = (assignment.files ?? []).map((f: any) => this.mapFileData(f));
-
+    private mapAssignmentData(courseID: string, assignment: WsAssignment): Assignment {
         return {
             id: assignment.id,
             name: assignment.name,
             courseID,
-            path,
-            files
+            path: assignment.path,
+            files: assignment.files,
+            deadline: this.parseDeadline(assignment.deadline),
+            maxPoints: assignment.maxPoints
         };
     }
 
-    private mapFileData(file: any): any {
-        return typeof file === "string" ? {
-            binary: false,
-            show: true,
-            filename: file
-        } : file;
+    /**
+     * Accepts Unix timestamps in seconds or milliseconds and date strings like `2020-11-20 23:59:00`.
+     */
+    private parseDeadline(deadline: number | string | undefined): number | undefined {
+        if (typeof deadline === 'number' && deadline > 0) {
+            return deadline < 1e12 ? deadline * 1000 : deadline;
+        }
+        if (typeof deadline === 'string' && deadline !== '') {
+            const time = Date.parse(deadline.replace(' ', 'T'));
+            return isNaN(time) ? undefined : time;
+        }
+        return undefined;
     }
 
 }
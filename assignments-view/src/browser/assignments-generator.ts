@@ -1,54 +1,274 @@
 import { injectable, inject } from 'inversify';
 import { FileService } from '@theia/filesystem/lib/browser/file-service';
 import URI from '@theia/core/lib/common/uri';
-import { RetriableOperation } from './retriable-operation'
+import { BinaryBuffer } from '@theia/core/lib/common/buffer';
+import { EndpointConfiguration } from 'top-bar/lib/browser/endpoint-configuration';
+import { RetriableOperation, RetryPolicy, HttpStatusError } from './retriable-operation'
+import { StarterManifest, StarterFileUpdate, StarterFileUpdates, StarterFileResolution } from './starter-manifest';
+import { mergeThreeWay, MergeResult } from './three-way-merge';
 
 @injectable()
 export class AssignmentGenerator {
 
-    private static readonly BASE_URL = '';
-    private RETRY_TIMEOUT_MS = 1000;
+    private readonly RETRY_POLICY = RetryPolicy.create({ maxAttempts: 4 });
+
+    // Assignment directories whose starter files were already compared with the server in this session
+    private readonly checkedStarterFiles = new Set<string>();
 
     constructor(
         @inject(FileService) private readonly fileService: FileService,
+        @inject(EndpointConfiguration) private readonly endpoints: EndpointConfiguration,
     ) {}
 
-    private makeURL(url: string): string {
-        return `${AssignmentGenerator.BASE_URL}${url}`;
+    private makeURL(query: string): string {
+        return this.endpoints.getURL('assignments', query);
     }
 
-    public async generateAssignmentSources(assignmentDirectory: string, assignment: Assignment) {
+    public async generateAssignmentSources(assignmentDirectory: string, assignment: Assignment, signal?: AbortSignal) {
         try {
             await this.fileService.createFolder(new URI(assignmentDirectory));
         } catch(_) {
             console.log(`Directory ${assignmentDirectory} already exists...`);
         }
 
+        const manifest: StarterManifest = { files: {} };
         const filesToGenerate = assignment.files.map(file => {
-            const operation = () => this.generateFile(assignmentDirectory, assignment, file);
-            const retriable = new RetriableOperation(operation, this.RETRY_TIMEOUT_MS);
+            const operation = () => this.generateFile(assignmentDirectory, assignment, file, manifest);
+            const retriable = new RetriableOperation(operation, { ...this.RETRY_POLICY, signal });
             return retriable.run();
         });
         await Promise.all(filesToGenerate);
+        await this.writeManifest(assignmentDirectory, manifest);
+    }
+
+    /**
+     * Downloads the starter files the student deleted, returns their names.
+     */
+    public async restoreMissingFiles(assignmentDirectory: string, assignment: Assignment, signal?: AbortSignal): Promise<string[]> {
+        const manifest = await this.readManifest(assignmentDirectory) ?? { files: {} };
+
+        const missingFiles: AssignmentFile[] = [];
+        for (const file of assignment.files) {
+            if (!await this.fileService.exists(new URI(`${assignmentDirectory}/${file.filename}`))) {
+                missingFiles.push(file);
+            }
+        }
+
+        await Promise.all(missingFiles.map(file => {
+            const operation = () => this.generateFile(assignmentDirectory, assignment, file, manifest);
+            const retriable = new RetriableOperation(operation, { ...this.RETRY_POLICY, signal });
+            return retriable.run();
+        }));
+        if (missingFiles.length > 0) {
+            await this.writeManifest(assignmentDirectory, manifest);
+        }
+
+        return missingFiles.map(file => file.filename);
+    }
+
+    /**
+     * Moves the assignment directory aside and generates the starter files again.
+     * Returns the URI of the backup.
+     */
+    public async resetToStarterState(assignmentDirectory: string, assignment: Assignment, signal?: AbortSignal): Promise<string> {
+        const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        const backupURI = `${assignmentDirectory}.backup-${timestamp}`;
+
+        await this.fileService.move(new URI(assignmentDirectory), new URI(backupURI));
+        await this.generateAssignmentSources(assignmentDirectory, assignment, signal);
+
+        return backupURI;
     }
 
-    private async generateFile(dirURI: string, assignment: Assignment, file: any) {
-        const content = await this.getFileContentFromServer(assignment, file)
+    private async generateFile(dirURI: string, assignment: Assignment, file: AssignmentFile, manifest: StarterManifest) {
+        const path = `${dirURI}/${file.filename}`;
 
-        if(!file.binary) {
-            const path = `${dirURI}/${file.filename}`;
+        if(file.binary) {
+            const bytes = await this.getBinaryFileContentFromServer(assignment, file);
+            const sha256 = await this.writeBinaryFile(new URI(path), bytes);
+            manifest.files[file.filename] = { sha256 };
+        } else {
+            const content = await this.getFileContentFromServer(assignment, file)
             await this.fileService.create(new URI(path), content);
+            manifest.files[file.filename] = { sha256: await StarterManifest.hash(content), content };
+        }
+    }
+
+    /**
+     * Writes the bytes unchanged and reads them back to verify the file, so a failed write is retried.
+     * Returns the SHA-256 of the content.
+     */
+    private async writeBinaryFile(uri: URI, bytes: Uint8Array): Promise<string> {
+        const expectedHash = await StarterManifest.hashBytes(bytes);
+
+        // Overwrites what a failed attempt left behind
+        await this.fileService.writeFile(uri, BinaryBuffer.wrap(bytes));
+
+        const { value } = await this.fileService.readFile(uri);
+        const writtenHash = await StarterManifest.hashBytes(value.buffer);
+        if (writtenHash !== expectedHash) {
+            throw Error(`Content of ${uri} does not match the downloaded file`);
+        }
+
+        return expectedHash;
+    }
+
+    /**
+     * Compares the server versions of the starter files with the ones downloaded before, once per session.
+     * Files the student did not touch and files new on the server are updated right away,
+     * the conflicting ones changed on both sides and need `applyStarterFileUpdate`.
+     */
+    public async getStarterFileUpdates(assignmentDirectory: string, assignment: Assignment, signal?: AbortSignal): Promise<StarterFileUpdates> {
+        if (this.checkedStarterFiles.has(assignmentDirectory)) {
+            return { updated: [], conflicting: [] };
+        }
+
+        this.checkedStarterFiles.add(assignmentDirectory);
+        try {
+            return await this.compareStarterFiles(assignmentDirectory, assignment, signal);
+        } catch (err) {
+            // Checked again the next time the assignment is opened
+            this.checkedStarterFiles.delete(assignmentDirectory);
+            throw err;
         }
     }
 
-    private async getFileContentFromServer(assignment: Assignment, file: any): Promise<any> {
+    private async compareStarterFiles(assignmentDirectory: string, assignment: Assignment, signal?: AbortSignal): Promise<StarterFileUpdates> {
+        const manifest = await this.readManifest(assignmentDirectory);
+        const updatedManifest: StarterManifest = { files: { ...manifest?.files } };
+        const updated: string[] = [];
+        const conflicting: StarterFileUpdate[] = [];
+
+        const textFiles = assignment.files.filter(f => !f.binary);
+        const serverContents = await Promise.all(textFiles.map(file => {
+            const operation = () => this.getFileContentFromServer(assignment, file);
+            return new RetriableOperation(operation, { ...this.RETRY_POLICY, signal }).run();
+        }));
+
+        for (let index = 0; index < textFiles.length; index++) {
+            const filename = textFiles[index].filename;
+            const theirs = serverContents[index];
+            const theirsHash = await StarterManifest.hash(theirs);
+            const entry = manifest?.files[filename];
+
+            // Directories generated before manifests existed start from the current server versions
+            if (manifest === undefined || entry?.sha256 === theirsHash) {
+                updatedManifest.files[filename] = { sha256: theirsHash, content: theirs };
+                continue;
+            }
+
+            const mine = await this.readFile(`${assignmentDirectory}/${filename}`);
+            const mineHash = mine !== undefined ? await StarterManifest.hash(mine) : undefined;
+
+            if (mineHash === theirsHash || (entry === undefined && mine === undefined)) {
+                if (mine === undefined) {
+                    await this.fileService.create(new URI(`${assignmentDirectory}/${filename}`), theirs);
+                    updated.push(filename);
+                }
+                updatedManifest.files[filename] = { sha256: theirsHash, content: theirs };
+                continue;
+            }
+
+            const locallyModified = mine === undefined || mineHash !== entry?.sha256;
+            if (!locallyModified) {
+                await this.fileService.write(new URI(`${assignmentDirectory}/${filename}`), theirs);
+                updatedManifest.files[filename] = { sha256: theirsHash, content: theirs };
+                updated.push(filename);
+                continue;
+            }
+
+            conflicting.push({ filename, base: entry?.content, theirs, mine, locallyModified });
+        }
+
+        await this.writeManifest(assignmentDirectory, updatedManifest);
+        return { updated, conflicting };
+    }
+
+    /**
+     * Resolves a starter file changed both on the server and by the student.
+     * Returns the merge result if the versions were merged.
+     */
+    public async applyStarterFileUpdate(
+        assignmentDirectory: string,
+        update: StarterFileUpdate,
+        resolution: StarterFileResolution
+    ): Promise<MergeResult | undefined> {
+        const fileURI = new URI(`${assignmentDirectory}/${update.filename}`);
+        let merged: MergeResult | undefined;
+
+        if (resolution === 'theirs') {
+            await this.fileService.write(fileURI, update.theirs);
+        } else if (resolution === 'merge') {
+            merged = mergeThreeWay(update.base ?? '', update.mine ?? '', update.theirs, {
+                mine: 'Your version',
+                theirs: 'Updated starter file',
+            });
+            await this.fileService.write(fileURI, merged.content);
+        }
+
+        // Keeping their own version still means the student saw this server version
+        const manifest = await this.readManifest(assignmentDirectory) ?? { files: {} };
+        manifest.files[update.filename] = { sha256: await StarterManifest.hash(update.theirs), content: update.theirs };
+        await this.writeManifest(assignmentDirectory, manifest);
+
+        return merged;
+    }
+
+    private async readManifest(assignmentDirectory: string): Promise<StarterManifest | undefined> {
+        const content = await this.readFile(`${assignmentDirectory}/${StarterManifest.FILENAME}`);
+        if (content === undefined) {
+            return undefined;
+        }
+
+        try {
+            const manifest = JSON.parse(content);
+            return StarterManifest.is(manifest) ? manifest : undefined;
+        } catch (err) {
+            console.log(`Ignoring corrupt starter manifest in ${assignmentDirectory}: ${err}`);
+            return undefined;
+        }
+    }
+
+    private async writeManifest(assignmentDirectory: string, manifest: StarterManifest) {
+        const uri = new URI(`${assignmentDirectory}/${StarterManifest.FILENAME}`);
+        await this.fileService.write(uri, JSON.stringify(manifest));
+    }
+
+    private async readFile(path: string): Promise<string | undefined> {
+        try {
+            const { value } = await this.fileService.read(new URI(path));
+            return value;
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    private async getFileContentFromServer(assignment: Assignment, file: AssignmentFile): Promise<string> {
+        const res = await this.fetchFile(assignment, file);
+        return await res.text();
+    }
+
+    private async getBinaryFileContentFromServer(assignment: Assignment, file: AssignmentFile): Promise<Uint8Array> {
+        const res = await this.fetchFile(assignment, file);
+        const bytes = new Uint8Array(await res.arrayBuffer());
+
+        // Compressed responses report the compressed length
+        const contentLength = res.headers.get('Content-Length');
+        if (contentLength !== null && res.headers.get('Content-Encoding') === null && Number(contentLength) !== bytes.byteLength) {
+            throw Error(`Incomplete download of ${file.filename}: got ${bytes.byteLength} of ${contentLength} bytes`);
+        }
+
+        return bytes;
+    }
+
+    private async fetchFile(assignment: Assignment, file: AssignmentFile): Promise<Response> {
         const { courseID, id } = assignment;
-        const url = this.makeURL(`/assignment/ws.php?action=getFile&course=${courseID}&external=1&task_direct=${id}&file=${file.filename}&replace=true`);
+        const url = this.makeURL(`action=getFile&course=${courseID}&external=1&task_direct=${id}&file=${encodeURIComponent(file.filename)}&replace=true`);
         const res = await fetch(url, { credentials: 'include' });
         if(res.status != 200) {
-            throw Error('Error getting file content');
+            throw new HttpStatusError(url, res.status);
         }
-        return await res.text();
+        return res;
     }
 
 }
\ No newline at end of file
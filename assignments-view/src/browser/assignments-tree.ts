@@ -10,10 +10,24 @@ import { injectable } from "inversify";
 @injectable()
 export class AssignmentsTree extends TreeImpl {
 
+    // Returns the part of a course directory to show, undefined to hide the course
+    protected directoryFilter?: (dir: Directory) => Directory | undefined;
+
+    /**
+     * Takes effect when the tree is refreshed.
+     */
+    setDirectoryFilter(filter: ((dir: Directory) => Directory | undefined) | undefined) {
+        this.directoryFilter = filter;
+    }
+
     protected resolveChildren(parent: CompositeTreeNode): Promise<TreeNode[]> {
         if (DirectoryRootNode.is(parent)) {
+            const filter = this.directoryFilter;
+            const directories = filter
+                ? parent.directories.map(dir => filter(dir)).filter((dir): dir is Directory => dir !== undefined)
+                : parent.directories;
             return Promise.resolve(
-                parent.directories.map(dir => this.makeDirectory(dir))
+                directories.map(dir => this.makeDirectory(dir))
             );
         }
 
@@ -1,17 +1,43 @@
 import { injectable, inject } from 'inversify';
-import { MenuModelRegistry } from '@theia/core';
-import { AssignmentsViewWidget } from './assignments-view-widget';
-import { AbstractViewContribution, FrontendApplicationContribution, FrontendApplication } from '@theia/core/lib/browser';
-import { Command, CommandRegistry } from '@theia/core/lib/common/command';
+import { MenuModelRegistry, MessageService, Disposable } from '@theia/core';
+import { AssignmentsViewWidget, ASSIGNMENTS_CONTEXT_MENU } from './assignments-view-widget';
+import { AbstractViewContribution, FrontendApplicationContribution, FrontendApplication, TreeNode, WidgetManager } from '@theia/core/lib/browser';
+import { Command, CommandRegistry, CommandHandler } from '@theia/core/lib/common/command';
 import { MaybePromise } from '@theia/core/lib/common/types';
 import { FrontendApplicationStateService } from '@theia/core/lib/browser/frontend-application-state';
 import { WorkspaceService } from '@theia/workspace/lib/browser';
+import { TabBarToolbarContribution, TabBarToolbarRegistry } from '@theia/core/lib/browser/shell/tab-bar-toolbar';
+import { Widget } from '@theia/core/lib/browser/widgets';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { AssignmentNode } from './assignments-tree';
+import { AssignmentDetailsWidget } from './assignment-details-widget';
 
 
 export const AssignmentsViewCommand: Command = { id: 'assignments-view:command' };
+export const AssignmentsRefreshCommand: Command = {
+    id: 'assignments-view:refresh',
+    label: 'Assignments: Refresh Catalogue',
+    iconClass: 'fa fa-refresh'
+};
+
+export namespace AssignmentCommands {
+    export const OPEN: Command = { id: 'assignments-view:open', label: 'Assignments: Open Assignment' };
+    export const REGENERATE: Command = { id: 'assignments-view:regenerate', label: 'Assignments: Regenerate Starter Files' };
+    export const RESET: Command = { id: 'assignments-view:reset', label: 'Assignments: Reset to Starter State' };
+    export const REVEAL: Command = { id: 'assignments-view:reveal', label: 'Assignments: Reveal in Explorer' };
+    export const RUN_AUTOTESTS: Command = { id: 'assignments-view:run-autotests', label: 'Assignments: Run Autotests' };
+    export const DOWNLOAD_ZIP: Command = { id: 'assignments-view:download-zip', label: 'Assignments: Download as Zip' };
+    export const SHOW_DETAILS: Command = { id: 'assignments-view:show-details', label: 'Assignments: Show Details' };
+}
+
+export namespace AssignmentMenus {
+    export const OPEN = [...ASSIGNMENTS_CONTEXT_MENU, '1_open'];
+    export const FILES = [...ASSIGNMENTS_CONTEXT_MENU, '2_files'];
+    export const AUTOTESTS = [...ASSIGNMENTS_CONTEXT_MENU, '3_autotests'];
+}
 
 @injectable()
-export class AssignmentsViewContribution extends AbstractViewContribution<AssignmentsViewWidget> implements FrontendApplicationContribution {
+export class AssignmentsViewContribution extends AbstractViewContribution<AssignmentsViewWidget> implements FrontendApplicationContribution, TabBarToolbarContribution {
 
     @inject(FrontendApplicationStateService)
     protected readonly stateService: FrontendApplicationStateService;
@@ -19,6 +45,20 @@ export class AssignmentsViewContribution extends AbstractViewContribution<Assign
     @inject(WorkspaceService)
     protected readonly workspaceService: WorkspaceService;
 
+    @inject(FileService)
+    protected readonly fileService: FileService;
+
+    @inject(MessageService)
+    protected readonly messageService: MessageService;
+
+    @inject(WidgetManager)
+    protected readonly widgetManager: WidgetManager;
+
+    // Registered by @theia/navigator, which this extension does not depend on
+    private readonly REVEAL_IN_NAVIGATOR_COMMAND = 'navigator.reveal';
+
+    private followSelection: Disposable | undefined;
+
     constructor() {
         super({
             widgetId: AssignmentsViewWidget.ID,
@@ -32,10 +72,102 @@ export class AssignmentsViewContribution extends AbstractViewContribution<Assign
         commands.registerCommand(AssignmentsViewCommand, {
             execute: () => super.openView({ activate: false, reveal: true })
         });
+        commands.registerCommand(AssignmentsRefreshCommand, {
+            execute: async () => {
+                const widget = await this.widget;
+                await widget.refresh();
+            }
+        });
+
+        commands.registerCommand(AssignmentCommands.OPEN, this.newAssignmentHandler(
+            (widget, assignment) => widget.openAssignment(assignment)));
+        commands.registerCommand(AssignmentCommands.REGENERATE, this.newAssignmentHandler(
+            (widget, assignment) => widget.regenerateStarterFiles(assignment)));
+        commands.registerCommand(AssignmentCommands.RESET, this.newAssignmentHandler(
+            (widget, assignment) => widget.resetToStarterState(assignment)));
+        commands.registerCommand(AssignmentCommands.REVEAL, this.newAssignmentHandler(
+            (widget, assignment) => this.revealInExplorer(widget, assignment, commands)));
+        commands.registerCommand(AssignmentCommands.RUN_AUTOTESTS, this.newAssignmentHandler(
+            (widget, assignment) => widget.runAutotests(assignment)));
+        commands.registerCommand(AssignmentCommands.DOWNLOAD_ZIP, this.newAssignmentHandler(
+            (widget, assignment) => widget.downloadAsZip(assignment)));
+        commands.registerCommand(AssignmentCommands.SHOW_DETAILS, this.newAssignmentHandler(
+            (widget, assignment) => this.showDetails(widget, assignment)));
+    }
+
+    /**
+     * Opens the details next to the editors. They follow the selection in the view until closed.
+     */
+    private async showDetails(widget: AssignmentsViewWidget, assignment: Assignment) {
+        const details = await this.widgetManager.getOrCreateWidget<AssignmentDetailsWidget>(AssignmentDetailsWidget.ID);
+        details.setAssignment(assignment);
+
+        if (!details.isAttached) {
+            this.shell.addWidget(details, { area: 'main', mode: 'split-right' });
+        }
+        this.shell.activateWidget(details.id);
+
+        if (this.followSelection === undefined) {
+            this.followSelection = widget.onDidSelectAssignment(selected => details.setAssignment(selected));
+            const stopFollowing = () => {
+                this.followSelection?.dispose();
+                this.followSelection = undefined;
+            };
+            details.disposed.connect(stopFollowing);
+            widget.disposed.connect(stopFollowing);
+        }
+    }
+
+    /**
+     * Runs on the node the context menu was opened on, or on the assignment selected in the view
+     * when the command comes from the command palette or a keybinding.
+     */
+    private newAssignmentHandler(execute: (widget: AssignmentsViewWidget, assignment: Assignment) => unknown): CommandHandler {
+        return {
+            execute: async (node?: TreeNode) => {
+                const assignment = this.getAssignment(node);
+                if (assignment !== undefined) {
+                    await execute(await this.widget, assignment);
+                }
+            },
+            isEnabled: (node?: TreeNode) => this.getAssignment(node) !== undefined,
+            isVisible: (node?: TreeNode) => this.getAssignment(node) !== undefined
+        };
+    }
+
+    private getAssignment(node?: TreeNode): Assignment | undefined {
+        const target = node ?? this.tryGetWidget()?.model.selectedNodes[0];
+        return target && AssignmentNode.is(target) ? target.assignment : undefined;
+    }
+
+    private async revealInExplorer(widget: AssignmentsViewWidget, assignment: Assignment, commands: CommandRegistry) {
+        const dirURI = widget.getAssignmentDirectoryURI(assignment);
+        if (!await this.fileService.exists(dirURI)) {
+            this.messageService.info(`'${assignment.name}' has not been started yet, open it first.`);
+            return;
+        }
+        await commands.executeCommand(this.REVEAL_IN_NAVIGATOR_COMMAND, dirURI);
+    }
+
+    registerToolbarItems(registry: TabBarToolbarRegistry): void {
+        registry.registerItem({
+            id: AssignmentsRefreshCommand.id,
+            command: AssignmentsRefreshCommand.id,
+            tooltip: 'Refresh Assignments',
+            isVisible: (widget: Widget) => widget instanceof AssignmentsViewWidget
+        });
     }
 
     registerMenus(menus: MenuModelRegistry): void {
         super.registerMenus(menus);
+
+        menus.registerMenuAction(AssignmentMenus.OPEN, { commandId: AssignmentCommands.OPEN.id, label: 'Open', order: '1' });
+        menus.registerMenuAction(AssignmentMenus.OPEN, { commandId: AssignmentCommands.SHOW_DETAILS.id, label: 'Show Details', order: '2' });
+        menus.registerMenuAction(AssignmentMenus.OPEN, { commandId: AssignmentCommands.REVEAL.id, label: 'Reveal in Explorer', order: '3' });
+        menus.registerMenuAction(AssignmentMenus.FILES, { commandId: AssignmentCommands.REGENERATE.id, label: 'Regenerate Starter Files', order: '1' });
+        menus.registerMenuAction(AssignmentMenus.FILES, { commandId: AssignmentCommands.RESET.id, label: 'Reset to Starter State (with Backup)', order: '2' });
+        menus.registerMenuAction(AssignmentMenus.FILES, { commandId: AssignmentCommands.DOWNLOAD_ZIP.id, label: 'Download as Zip', order: '3' });
+        menus.registerMenuAction(AssignmentMenus.AUTOTESTS, { commandId: AssignmentCommands.RUN_AUTOTESTS.id, label: 'Run Autotests' });
     }
 
     onStart(app: FrontendApplication): MaybePromise<void> {
@@ -1,5 +1,5 @@
 import { ContainerModule, interfaces } from 'inversify';
-import { AssignmentsViewWidget } from './assignments-view-widget';
+import { AssignmentsViewWidget, ASSIGNMENTS_CONTEXT_MENU } from './assignments-view-widget';
 import { AssignmentsViewContribution } from './assignments-view-contribution';
 import {
     bindViewContribution,
@@ -8,16 +8,28 @@ import {
     TreeWidget,
     WidgetFactory,
     TreeImpl,
-    Tree
+    Tree,
+    TreeProps,
+    defaultTreeProps
 } from "@theia/core/lib/browser";
 import { AssignmentsTree } from "./assignments-tree";
 import { AssignmentGenerator } from './assignments-generator';
+import { AssignmentsDataProvider } from './assignments-data-provider';
+import { AssignmentDetailsWidget } from './assignment-details-widget';
+import { TabBarToolbarContribution } from '@theia/core/lib/browser/shell/tab-bar-toolbar';
 
 import '../../src/browser/style/index.css';
 
 export default new ContainerModule(bind => {
     bindViewContribution(bind, AssignmentsViewContribution);
     bind(FrontendApplicationContribution).toService(AssignmentsViewContribution);
+    bind(TabBarToolbarContribution).toService(AssignmentsViewContribution);
+    bind(AssignmentsDataProvider).toSelf().inSingletonScope();
+    bind(AssignmentDetailsWidget).toSelf();
+    bind(WidgetFactory).toDynamicValue(ctx => ({
+        id: AssignmentDetailsWidget.ID,
+        createWidget: () => ctx.container.get<AssignmentDetailsWidget>(AssignmentDetailsWidget)
+    })).inSingletonScope();
     bind(AssignmentGenerator).toSelf().inSingletonScope();
     bind(WidgetFactory).toDynamicValue(ctx => ({
         id: AssignmentsViewWidget.ID,
@@ -27,9 +39,14 @@ export default new ContainerModule(bind => {
 
 export function createAssignmentViewWidget(parent: interfaces.Container) : AssignmentsViewWidget {
     const child = createTreeContainer(parent);
+
+    child.rebind(TreeProps).toConstantValue({
+        ...defaultTreeProps,
+        contextMenuPath: ASSIGNMENTS_CONTEXT_MENU
+    });
   
     child.unbind(TreeImpl);
-    child.bind(AssignmentsTree).toSelf();
+    child.bind(AssignmentsTree).toSelf().inSingletonScope();
     child.rebind(Tree).toService(AssignmentsTree);
   
     child.unbind(TreeWidget);
@@ -1,30 +1,68 @@
+import * as React from 'react';
 import { injectable, inject } from 'inversify';
 import {
     ContextMenuRenderer,
+    NodeProps,
     TreeModel,
     TreeProps,
     TreeWidget,
     TreeNode,
     ExpandableTreeNode,
+    SelectableTreeNode,
     open,
-    OpenerService
+    OpenerService,
+    ConfirmDialog
 } from "@theia/core/lib/browser";
-import { DirectoryRootNode, DirectoryNode, AssignmentNode } from "./assignments-tree";
-import { MessageService } from '@theia/core';
+import { DirectoryRootNode, DirectoryNode, AssignmentNode, AssignmentsTree } from "./assignments-tree";
+import { MessageService, Disposable, MenuPath, Emitter, Event } from '@theia/core';
 import { AssignmentsDataProvider } from './assignments-data-provider';
 import { AssignmentGenerator } from './assignments-generator';
 import { WorkspaceService } from '@theia/workspace/lib/browser';
 import URI from '@theia/core/lib/common/uri';
 import { FileService } from '@theia/filesystem/lib/browser/file-service';
-import { RetriableOperation } from './retriable-operation';
+import { RetriableOperation, RetryPolicy, RetryAbortedError } from './retriable-operation';
 import { FileOperationError, FileOperationResult } from '@theia/filesystem/lib/common/files';
+import { AutotestService, AutotestRunStatus } from 'autotest-view/lib/browser/autotest-service';
+import { AutotestRunError } from 'autotest-view/lib/browser/autotest-errors';
+import { AssignmentScore, collectAssignments } from './assignment-score';
+import { StarterFileUpdate, StarterFileResolution } from './starter-manifest';
+import { AssignmentFilter } from './assignment-filter';
+import { zipAssignmentDirectory, downloadBlob } from './assignment-archive';
+import { AssignmentDeadline } from './assignment-deadline';
+
+export const ASSIGNMENTS_CONTEXT_MENU: MenuPath = ['assignments-view-context-menu'];
 
 @injectable()
 export class AssignmentsViewWidget extends TreeWidget {
     static readonly ID = 'assignments-view:widget';
     static readonly LABEL = 'Assignments View';
 
-    private readonly RETRY_TIMEOUT_MS = 1000;
+    // Opened files may not be written yet right after generating them
+    private readonly OPEN_RETRY_POLICY = RetryPolicy.create({ maxAttempts: 5, initialDelayMs: 500 });
+
+    private readonly DEADLINE_UPDATE_INTERVAL_MS = 60 * 1000;
+
+    // Stops the downloads and retries still running when the widget is closed
+    private readonly abortController = new AbortController();
+
+    // When the catalogue shown was fetched, undefined until it is loaded from the cache or server
+    private updatedAt?: number;
+    private offline = false;
+    private refreshing = false;
+
+    // Autotest results per assignment directory URI
+    private scores = new Map<string, AssignmentScore>();
+
+    private filter: AssignmentFilter = AssignmentFilter.EMPTY;
+    // Incremented on every change, so results of an outdated filter are not applied
+    private filterGeneration = 0;
+    // Nodes to expand again when the filter is cleared
+    private expandedBeforeFilter?: string[];
+    // URIs of the assignments whose directory exists in the workspace
+    private startedAssignments = new Set<string>();
+
+    private readonly onDidSelectAssignmentEmitter = new Emitter<Assignment>();
+    readonly onDidSelectAssignment: Event<Assignment> = this.onDidSelectAssignmentEmitter.event;
 
     constructor(
         @inject(TreeProps) readonly props: TreeProps,
@@ -35,6 +73,9 @@ export class AssignmentsViewWidget extends TreeWidget {
         @inject(FileService) private readonly fileService: FileService,
         @inject(OpenerService) private readonly openerService: OpenerService,
         @inject(AssignmentGenerator) private readonly assignmentGenerator: AssignmentGenerator,
+        @inject(AutotestService) private readonly autotestService: AutotestService,
+        @inject(AssignmentsDataProvider) private readonly dataProvider: AssignmentsDataProvider,
+        @inject(AssignmentsTree) private readonly assignmentsTree: AssignmentsTree,
     ) {
         super(props, model, contextMenuRenderer);
 
@@ -43,28 +84,334 @@ export class AssignmentsViewWidget extends TreeWidget {
         this.title.caption = AssignmentsViewWidget.LABEL;
         this.title.closable = true;
         this.title.iconClass = 'fa fa-code';
+        this.toDispose.push(Disposable.create(() => this.abortController.abort()));
+        this.toDispose.push(this.onDidSelectAssignmentEmitter);
 
-        const dataProvider = new AssignmentsDataProvider();
+        this.model.onSelectionChanged(nodes => {
+            const node = nodes[0];
+            if (node && AssignmentNode.is(node)) {
+                this.onDidSelectAssignmentEmitter.fire(node.assignment);
+            }
+        });
 
-        dataProvider
-            .getCoursesData()
-            .then((directories: Directory[]) => {
-                if (directories === []) {
-                    this.messageService.info('No active courses found. If you think that this is an issue, contact your supervisor.');
-                }
+        // Keeps the deadline countdowns current
+        const deadlineTimer = window.setInterval(() => this.update(), this.DEADLINE_UPDATE_INTERVAL_MS);
+        this.toDispose.push(Disposable.create(() => window.clearInterval(deadlineTimer)));
 
-                this.model.root = this.makeRootNode(directories);
+        this.model.root = this.makeRootNode([]);
+        this.update();
+
+        this.loadCachedCatalogue().then(() => this.refresh());
+
+        this.toDispose.push(this.autotestService.onTestsFinished(async autotestEvent => {
+            const dirURI = autotestEvent.program.uri;
+            if (this.scores.has(dirURI) || this.isAssignmentDirectory(dirURI)) {
+                await this.updateScore(dirURI);
                 this.update();
-            })
-            .catch(err => {
-                console.log(err);
+            }
+        }));
+    }
+
+    private async loadCachedCatalogue() {
+        try {
+            const catalogue = await this.dataProvider.getCachedCoursesData();
+            if (catalogue !== undefined && this.updatedAt === undefined) {
+                this.updatedAt = catalogue.updatedAt;
+                await this.showDirectories(catalogue.directories);
+            }
+        } catch (err) {
+            console.log(`Could not load cached assignments: ${err}`);
+        }
+    }
+
+    /**
+     * Fetches the catalogue from the server, keeping the cached one if the server can not be reached.
+     */
+    public async refresh() {
+        if (this.refreshing) {
+            return;
+        }
+        this.refreshing = true;
+        this.update();
+
+        try {
+            const directories = await this.dataProvider.getCoursesData();
+            if (directories.length === 0) {
+                this.messageService.info('No active courses found. If you think that this is an issue, contact your supervisor.');
+            }
+
+            this.updatedAt = Date.now();
+            this.offline = false;
+            await this.showDirectories(directories);
+
+            const issues = this.dataProvider.getValidationIssues();
+            if (issues.length > 0) {
+                this.messageService.warn(`${issues.length} invalid item(s) in the assignment list were skipped. `
+                    + 'If an assignment is missing, please contact your supervisor.');
+            }
+        } catch (err) {
+            console.log(err);
+            this.offline = true;
+            if (this.updatedAt === undefined) {
                 this.messageService.info(`Failed to fetch any assignment data...`);
-            });
+            }
+        } finally {
+            this.refreshing = false;
+            this.update();
+        }
+    }
 
-        this.model.root = this.makeRootNode([]);
+    private async showDirectories(directories: Directory[]) {
+        const expandedIDs = this.getExpandedNodeIDs();
+
+        this.model.root = this.makeRootNode(directories);
+        await this.model.refresh();
+
+        await this.expandNodes(expandedIDs);
+
+        this.update();
+        this.loadScores(directories);
+    }
+
+    private async expandNodes(ids: string[]) {
+        // Parents come before their children, which only exist once the parent is expanded
+        for (const id of ids) {
+            const node = this.model.getNode(id);
+            if (ExpandableTreeNode.is(node)) {
+                await this.model.expandNode(node);
+            }
+        }
+    }
+
+    private async expandAll(node: TreeNode) {
+        if (!DirectoryRootNode.is(node) && !DirectoryNode.is(node)) {
+            return;
+        }
+        if (DirectoryNode.is(node)) {
+            await this.model.expandNode(node);
+        }
+        for (const child of node.children) {
+            await this.expandAll(child);
+        }
+    }
+
+    private async setFilter(filter: AssignmentFilter) {
+        const generation = ++this.filterGeneration;
+        const wasActive = AssignmentFilter.isActive(this.filter);
+        const isActive = AssignmentFilter.isActive(filter);
+        this.filter = filter;
+        this.update();
+
+        if (isActive && !wasActive) {
+            this.expandedBeforeFilter = this.getExpandedNodeIDs();
+        }
+        if (filter.notStarted) {
+            await this.loadStartedAssignments();
+        }
+        if (generation !== this.filterGeneration) {
+            return;
+        }
+
+        this.assignmentsTree.setDirectoryFilter(isActive
+            ? dir => AssignmentFilter.apply(dir, filter, assignment => this.startedAssignments.has(this.getAssignmentURI(assignment)))
+            : undefined);
+        await this.model.refresh();
+
+        // Every directory left contains a match
+        if (isActive && this.model.root) {
+            await this.expandAll(this.model.root);
+        } else if (!isActive) {
+            await this.expandNodes(this.expandedBeforeFilter ?? []);
+            this.expandedBeforeFilter = undefined;
+        }
+        this.update();
+    }
+
+    private async loadStartedAssignments() {
+        const root = this.model.root;
+        if (!root || !DirectoryRootNode.is(root)) {
+            return;
+        }
+
+        const uris = root.directories
+            .reduce((all, dir) => [...all, ...collectAssignments(dir)], [] as Assignment[])
+            .map(assignment => this.getAssignmentURI(assignment));
+        const started = new Set<string>();
+        await Promise.all(uris.map(async uri => {
+            if (await this.fileService.exists(new URI(uri))) {
+                started.add(uri);
+            }
+        }));
+        this.startedAssignments = started;
+    }
+
+    private getExpandedNodeIDs(): string[] {
+        const ids: string[] = [];
+        const collect = (node: TreeNode) => {
+            if (ExpandableTreeNode.isExpanded(node) && !DirectoryRootNode.is(node)) {
+                ids.push(node.id);
+            }
+            if (ExpandableTreeNode.isExpanded(node) || DirectoryRootNode.is(node)) {
+                node.children.forEach(collect);
+            }
+        };
+        if (this.model.root) {
+            collect(this.model.root);
+        }
+        return ids;
+    }
+
+    protected render(): React.ReactNode {
+        return <React.Fragment>
+            {this.renderLastUpdated()}
+            {this.renderFilter()}
+            {super.render()}
+        </React.Fragment>;
+    }
+
+    private renderFilter(): React.ReactNode {
+        return <div className='assignments-filter'>
+            <input
+                type='text'
+                className='theia-input assignments-filter-input'
+                placeholder='Filter assignments'
+                spellCheck={false}
+                defaultValue={this.filter.query}
+                ref={this.filterInputRef}
+                onChange={e => this.setFilter({ ...this.filter, query: e.target.value })}
+            />
+            <label className='assignments-filter-option'>
+                <input
+                    type='checkbox'
+                    checked={this.filter.notStarted}
+                    onChange={e => this.setFilter({ ...this.filter, notStarted: e.target.checked })}
+                />
+                Not started
+            </label>
+            <label className='assignments-filter-option'>
+                <input
+                    type='checkbox'
+                    checked={this.filter.hasAutotests}
+                    onChange={e => this.setFilter({ ...this.filter, hasAutotests: e.target.checked })}
+                />
+                Has autotests
+            </label>
+        </div>;
+    }
+
+    // The tree handles arrow keys and Enter on the whole widget, typing in the filter must not move the selection
+    private readonly filterInputRef = (input: HTMLInputElement | null) => {
+        input?.addEventListener('keydown', event => event.stopPropagation());
+    };
+
+    private renderLastUpdated(): React.ReactNode {
+        let text: string;
+        if (this.refreshing && this.updatedAt === undefined) {
+            text = 'Loading assignments...';
+        } else if (this.updatedAt === undefined) {
+            text = 'Assignments could not be loaded';
+        } else {
+            text = `Last updated ${new Date(this.updatedAt).toLocaleString()}`;
+            if (this.refreshing) {
+                text += ', refreshing...';
+            } else if (this.offline) {
+                text += ' (offline)';
+            }
+        }
+
+        return <div className={`assignments-last-updated${this.offline ? ' assignments-offline' : ''}`}>{text}</div>;
+    }
+
+    private async loadScores(directories: Directory[]) {
+        const assignments = directories.reduce(
+            (all, dir) => [...all, ...collectAssignments(dir)],
+            [] as Assignment[]
+        );
+        await Promise.all(assignments.map(assignment => this.updateScore(this.getAssignmentURI(assignment))));
         this.update();
     }
 
+    private async updateScore(dirURI: string) {
+        try {
+            const { passed, total } = await this.autotestService.getTestPassResults(dirURI);
+            if (total < 0) {
+                this.scores.delete(dirURI);
+            } else {
+                this.scores.set(dirURI, { passed, total });
+            }
+        } catch (err) {
+            console.log(`Could not read autotest results of ${dirURI}: ${err}`);
+            this.scores.delete(dirURI);
+        }
+    }
+
+    private isAssignmentDirectory(dirURI: string): boolean {
+        const root = this.model.root;
+        if (!root || !DirectoryRootNode.is(root)) {
+            return false;
+        }
+        return root.directories
+            .some(dir => collectAssignments(dir).some(assignment => this.getAssignmentURI(assignment) === dirURI));
+    }
+
+    private getAssignmentURI(assignment: Assignment): string {
+        const workspaceURI = this.workspaceService.workspace?.resource.toString() ?? '';
+        return `${workspaceURI}/${assignment.path}`;
+    }
+
+    protected renderTailDecorations(node: TreeNode, props: NodeProps): React.ReactNode {
+        return <React.Fragment>
+            {super.renderTailDecorations(node, props)}
+            {this.renderDeadlineBadge(node)}
+            {this.renderScoreBadge(node)}
+        </React.Fragment>;
+    }
+
+    private renderDeadlineBadge(node: TreeNode): React.ReactNode {
+        if (!AssignmentNode.is(node) || node.assignment.deadline === undefined) {
+            return undefined;
+        }
+
+        const assignment = node.assignment;
+        const state = AssignmentDeadline.getState(assignment);
+        return <span
+            className={`assignment-deadline assignment-deadline-${state}`}
+            title={`Due ${new Date(assignment.deadline!).toLocaleString()}`
+                + (assignment.maxPoints !== undefined ? `, ${assignment.maxPoints} points` : '')}
+        >
+            {AssignmentDeadline.formatShort(assignment)}
+        </span>;
+    }
+
+    private renderScoreBadge(node: TreeNode): React.ReactNode {
+        if (AssignmentNode.is(node)) {
+            const score = this.scores.get(this.getAssignmentURI(node.assignment));
+            const state = AssignmentScore.getState(score);
+            return <span
+                className={`assignment-score assignment-score-${state}`}
+                title={score ? `${score.passed} of ${score.total} autotests pass` : 'Not tested yet'}
+            >
+                {score ? `${score.passed}/${score.total}` : '–'}
+            </span>;
+        }
+
+        if (DirectoryNode.is(node)) {
+            const score = AssignmentScore.rollUp(node.directory, assignment => this.scores.get(this.getAssignmentURI(assignment)));
+            if (score.assignments === 0) {
+                return undefined;
+            }
+            const state = AssignmentScore.getDirectoryState(score);
+            return <span
+                className={`assignment-score assignment-score-${state}`}
+                title={`${score.tested} of ${score.assignments} assignments tested`}
+            >
+                {score.tested > 0 ? `${score.passed}/${score.total}` : '–'}
+            </span>;
+        }
+
+        return undefined;
+    }
+
     private makeRootNode(directories: Directory[]) {
         return {
             id: "assignments-root",
@@ -78,12 +425,7 @@ export class AssignmentsViewWidget extends TreeWidget {
 
     protected handleDblClickEvent(node: TreeNode | undefined, event: React.MouseEvent<HTMLElement>): void {
         if (node && AssignmentNode.is(node)) {
-            this.assignmentDirectoryGeneration(node.assignment)
-                .catch(err => {
-                    console.log("Error occured while generating assignment resources:", err);
-                    console.log("Za svaki slucaj i ovo: ", JSON.stringify(err));
-                    this.messageService.info('An error occurred while generating assignment sources')
-                });
+            this.openAssignment(node.assignment);
             event.stopPropagation();
         } else {
             this.model.openNode(node);
@@ -91,6 +433,117 @@ export class AssignmentsViewWidget extends TreeWidget {
         }
     }
 
+    protected handleEnter(event: KeyboardEvent): void {
+        const node = this.model.selectedNodes[0];
+        if (node && AssignmentNode.is(node)) {
+            this.openAssignment(node.assignment);
+        } else {
+            super.handleEnter(event);
+        }
+    }
+
+    // Context menu commands get the node that was clicked
+    protected toContextMenuArgs(node: SelectableTreeNode): any[] {
+        return [node];
+    }
+
+    public openAssignment(assignment: Assignment) {
+        this.assignmentDirectoryGeneration(assignment)
+            .catch(err => {
+                console.log("Error occured while generating assignment resources:", err);
+                console.log("Za svaki slucaj i ovo: ", JSON.stringify(err));
+                this.messageService.info('An error occurred while generating assignment sources')
+            });
+    }
+
+    /**
+     * Downloads the starter files that were deleted and offers the ones updated on the server.
+     */
+    public async regenerateStarterFiles(assignment: Assignment) {
+        const dirURI = this.getAssignmentURI(assignment);
+        if (!await this.fileService.exists(new URI(dirURI))) {
+            await this.generateAssignmentSources(dirURI, assignment);
+            return;
+        }
+
+        try {
+            const restored = await this.assignmentGenerator.restoreMissingFiles(dirURI, assignment, this.abortController.signal);
+            await this.updateStarterFiles(dirURI, assignment);
+            this.messageService.info(restored.length > 0
+                ? `Restored ${restored.join(', ')} in '${assignment.path}'.`
+                : `The starter files of '${assignment.path}' are up to date.`);
+        } catch (err) {
+            console.log(`Error regenerating starter files: ${err}`);
+            if (!(err instanceof RetryAbortedError)) {
+                this.messageService.error(`Could not regenerate starter files of '${assignment.path}': ${err.message}`);
+            }
+        }
+    }
+
+    /**
+     * Replaces the assignment directory with fresh starter files, after the student confirms.
+     * The old directory is kept next to it.
+     */
+    public async resetToStarterState(assignment: Assignment) {
+        const dirURI = this.getAssignmentURI(assignment);
+        if (!await this.fileService.exists(new URI(dirURI))) {
+            await this.generateAssignmentSources(dirURI, assignment);
+            return;
+        }
+
+        const confirmed = await new ConfirmDialog({
+            title: 'Reset to starter state',
+            msg: `All your changes to '${assignment.name}' will be replaced by the starter files. A backup of the current files is kept. Continue?`,
+            ok: 'Reset',
+        }).open();
+        if (!confirmed) {
+            return;
+        }
+
+        try {
+            const backupURI = await this.assignmentGenerator.resetToStarterState(dirURI, assignment, this.abortController.signal);
+            this.messageService.info(`'${assignment.path}' was reset. Your previous files are in ${new URI(backupURI).path.base}.`);
+        } catch (err) {
+            console.log(`Error resetting assignment: ${err}`);
+            if (!(err instanceof RetryAbortedError)) {
+                this.messageService.error(`Could not reset '${assignment.path}': ${err.message}`);
+            }
+        }
+    }
+
+    public async runAutotests(assignment: Assignment) {
+        const dirURI = this.getAssignmentURI(assignment);
+        if (!AssignmentFilter.hasAutotests(assignment) && !await this.fileService.exists(new URI(`${dirURI}/.autotest2`))) {
+            this.messageService.info(`'${assignment.name}' has no autotests.`);
+            return;
+        }
+        if (this.autotestService.isBeingTested(dirURI) || this.autotestService.isScheduled(dirURI)) {
+            this.messageService.info(`'${assignment.name}' is already being tested.`);
+            return;
+        }
+
+        const runInfo = await this.autotestService.runTests(dirURI, true);
+        if (!runInfo.success && runInfo.status !== AutotestRunStatus.CANCELED && runInfo.status !== AutotestRunStatus.QUEUED) {
+            const reason = runInfo.error !== undefined ? AutotestRunError.describe(runInfo.error) : AutotestRunStatus[runInfo.status];
+            this.messageService.error(`Could not test '${assignment.name}': ${reason}`);
+        }
+    }
+
+    public async downloadAsZip(assignment: Assignment) {
+        const dirURI = this.getAssignmentURI(assignment);
+        try {
+            const zip = await zipAssignmentDirectory(this.fileService, dirURI);
+            downloadBlob(zip, `${new URI(dirURI).path.base}.zip`);
+        } catch (err) {
+            console.log(`Error zipping assignment: ${err}`);
+            this.messageService.error(`Could not create a zip of '${assignment.path}': ${err.message}`);
+        }
+    }
+
+    public getAssignmentDirectoryURI(assignment: Assignment): URI {
+        return new URI(this.getAssignmentURI(assignment));
+    }
+
     private async assignmentDirectoryGeneration(assignment: Assignment) {
         console.log('Starting assignment generation method...')
         const workspaceURI = this.workspaceService.workspace?.resource || '';
@@ -98,6 +551,7 @@ export class AssignmentsViewWidget extends TreeWidget {
         const assignmentDirectoryURI = new URI(assignmentDirectoryPath);
         console.log('Done preparing directory uri based on assignemnt')
 
+        let generated = false;
         try {
             // Error thrown if file/directory not found
             const dir = await this.fileService.resolve(assignmentDirectoryURI);
@@ -106,11 +560,17 @@ export class AssignmentsViewWidget extends TreeWidget {
             console.log(`IS DIRECTORY EMPTY: ${directoryEmpty}`)
             if (directoryEmpty) {
                 console.log('Should generate assignment sources even if directory empty');
-                await this.generateAssignmentSources(assignmentDirectoryPath, assignment);
+                if (!await this.generateAssignmentSources(assignmentDirectoryPath, assignment)) {
+                    return;
+                }
+                generated = true;
             }
         } catch(err) {
             if (err instanceof FileOperationError && err.fileOperationResult === FileOperationResult.FILE_NOT_FOUND) {
-                await this.generateAssignmentSources(assignmentDirectoryPath, assignment);
+                if (!await this.generateAssignmentSources(assignmentDirectoryPath, assignment)) {
+                    return;
+                }
+                generated = true;
             } else {
                 console.log(`Error resolving assignment directory: ${err}`);
                 return;
@@ -125,23 +585,82 @@ export class AssignmentsViewWidget extends TreeWidget {
                 try {
                     const fileURI = new URI(`${assignmentDirectoryPath}/${file.filename}`);
                     const operation = () => open(this.openerService, fileURI);
-                    const retriable = new RetriableOperation(operation, this.RETRY_TIMEOUT_MS);
+                    const retriable = new RetriableOperation(operation, { ...this.OPEN_RETRY_POLICY, signal: this.abortController.signal });
                     await retriable.run()
                 } catch(err) {
                     console.log(`Error opening file: ${err}`)
+                    if (!(err instanceof RetryAbortedError)) {
+                        this.messageService.error(`Could not open ${file.filename}: ${err.message}`);
+                    }
                 }
             });
         console.log('End assignment generation and opening...')
+
+        if (!generated) {
+            this.updateStarterFiles(assignmentDirectoryPath, assignment)
+                .catch(err => console.log(`Error checking for starter file updates: ${err}`));
+        }
+    }
+
+    private async updateStarterFiles(assignmentDirectoryPath: string, assignment: Assignment) {
+        const { updated, conflicting } = await this.assignmentGenerator.getStarterFileUpdates(assignmentDirectoryPath, assignment, this.abortController.signal);
+        if (updated.length > 0) {
+            this.messageService.info(`Starter files of '${assignment.name}' were updated by your teacher: ${updated.join(', ')}.`);
+        }
+
+        // One at a time, every answer updates the manifest
+        for (const update of conflicting) {
+            const resolution = await this.askStarterFileResolution(assignment, update);
+            if (resolution === undefined) {
+                continue;
+            }
+
+            const merged = await this.assignmentGenerator.applyStarterFileUpdate(assignmentDirectoryPath, update, resolution);
+            if (merged !== undefined) {
+                await open(this.openerService, new URI(`${assignmentDirectoryPath}/${update.filename}`));
+                if (merged.conflicts > 0) {
+                    this.messageService.warn(`${update.filename}: ${merged.conflicts} conflicting change(s) are marked in the file, please resolve them.`);
+                }
+            }
+        }
+    }
+
+    private async askStarterFileResolution(assignment: Assignment, update: StarterFileUpdate): Promise<StarterFileResolution | undefined> {
+        const MERGE = 'Merge';
+        const THEIRS = 'Take theirs';
+        const MINE = 'Keep mine';
+
+        const actions = update.mine !== undefined ? [MERGE, THEIRS, MINE] : [THEIRS, MINE];
+        const change = update.mine !== undefined ? 'you also changed it' : 'you deleted it';
+        const answer = await this.messageService.info(
+            `The starter file ${update.filename} of '${assignment.name}' was updated by your teacher, but ${change}.`,
+            ...actions
+        );
+
+        switch (answer) {
+            case MERGE: return 'merge';
+            case THEIRS: return 'theirs';
+            case MINE: return 'mine';
+            default: return undefined;
+        }
     }
 
-    private async generateAssignmentSources(assignmentDirectoryPath: string, assignment: Assignment) {
+    /**
+     * Returns whether all the files of the assignment were generated.
+     */
+    private async generateAssignmentSources(assignmentDirectoryPath: string, assignment: Assignment): Promise<boolean> {
         this.messageService.info(`Generating sources for '${assignment.path}'...`);
         try {
-            await this.assignmentGenerator.generateAssignmentSources(assignmentDirectoryPath, assignment)
+            await this.assignmentGenerator.generateAssignmentSources(assignmentDirectoryPath, assignment, this.abortController.signal)
         } catch(err) {
             console.log(`Error generating assignment sources: ${err}`);
+            if (!(err instanceof RetryAbortedError)) {
+                this.messageService.error(`Could not generate sources for '${assignment.path}': ${err.message}`);
+            }
+            return false;
         }
         this.messageService.info(`Sources for ${assignment.path} generated successfully!`);
+        return true;
     }
 
     protected isExpandable(node: TreeNode): node is ExpandableTreeNode {
@@ -1,24 +1,147 @@
 import { injectable } from 'inversify';
+import { FileOperationError, FileOperationResult } from '@theia/filesystem/lib/common/files';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    // Each delay is this many times longer than the previous one
+    backoffFactor: number;
+    // Fraction of the delay that is randomized, so clients do not retry in lockstep
+    jitter: number;
+    isRetryable: (err: any) => boolean;
+    signal?: AbortSignal;
+}
+
+export namespace RetryPolicy {
+
+    export const DEFAULT: RetryPolicy = {
+        maxAttempts: 5,
+        initialDelayMs: 1000,
+        maxDelayMs: 30000,
+        backoffFactor: 2,
+        jitter: 0.2,
+        isRetryable: isTransientError,
+    };
+
+    export function create(options: Partial<RetryPolicy>): RetryPolicy {
+        return { ...DEFAULT, ...options };
+    }
+
+    /**
+     * Delay before the given retry, starting with 1 for the delay after the first attempt.
+     */
+    export function getDelay(policy: RetryPolicy, retry: number): number {
+        const delay = Math.min(policy.initialDelayMs * Math.pow(policy.backoffFactor, retry - 1), policy.maxDelayMs);
+        const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+        return Math.max(0, Math.round(delay + jitter));
+    }
+
+}
+
+/**
+ * Thrown when the server responds with an error status, so retry policies can tell client errors from server errors.
+ */
+export class HttpStatusError extends Error {
+
+    constructor(
+        readonly url: string,
+        readonly status: number,
+    ) {
+        super(`${url} responded with ${status}`);
+        this.name = 'HttpStatusError';
+        Object.setPrototypeOf(this, HttpStatusError.prototype);
+    }
+
+}
+
+/**
+ * Thrown by `RetriableOperation.run` when the last allowed attempt failed or the error can not be retried.
+ */
+export class RetryFailedError extends Error {
+
+    constructor(
+        readonly attempts: number,
+        readonly lastError: any,
+    ) {
+        super(lastError instanceof Error ? lastError.message : String(lastError));
+        this.name = 'RetryFailedError';
+        Object.setPrototypeOf(this, RetryFailedError.prototype);
+    }
+
+}
+
+/**
+ * Thrown by `RetriableOperation.run` when the policy's signal is aborted.
+ */
+export class RetryAbortedError extends Error {
+
+    constructor() {
+        super('Operation aborted');
+        this.name = 'RetryAbortedError';
+        Object.setPrototypeOf(this, RetryAbortedError.prototype);
+    }
+
+}
+
+/**
+ * Errors that may go away by themselves, like network failures and overloaded servers.
+ * Missing files and denied permissions are not among them.
+ */
+export function isTransientError(err: any): boolean {
+    if (err instanceof HttpStatusError) {
+        return err.status >= 500 || err.status === 408 || err.status === 429;
+    }
+    if (err instanceof FileOperationError) {
+        return err.fileOperationResult !== FileOperationResult.FILE_PERMISSION_DENIED
+            && err.fileOperationResult !== FileOperationResult.FILE_IS_DIRECTORY
+            && err.fileOperationResult !== FileOperationResult.FILE_TOO_LARGE
+            && err.fileOperationResult !== FileOperationResult.FILE_INVALID_PATH;
+    }
+    return true;
+}
 
 @injectable()
-export class RetriableOperation {
+export class RetriableOperation<T = void> {
 
     constructor(
-        private operation: Function,
-        private timeoutMs: number,
+        private operation: () => Promise<T>,
+        private policy: RetryPolicy = RetryPolicy.DEFAULT,
     ) {}
 
-    public async run() {
-        try {
-            await this.operation();
-        } catch(err) {
-            console.log(`Error running operation: ${err}`);
-            await this.delay(this.timeoutMs);
-            await this.run();
+    public async run(): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            this.checkAborted();
+            try {
+                return await this.operation();
+            } catch(err) {
+                console.log(`Error running operation (attempt ${attempt} of ${this.policy.maxAttempts}): ${err}`);
+                if (attempt >= this.policy.maxAttempts || !this.policy.isRetryable(err)) {
+                    throw new RetryFailedError(attempt, err);
+                }
+            }
+            await this.delay(RetryPolicy.getDelay(this.policy, attempt));
+        }
+    }
+
+    private checkAborted() {
+        if (this.policy.signal?.aborted) {
+            throw new RetryAbortedError();
         }
     }
 
     private delay(ms: number) {
-        return new Promise(resolve => setTimeout(resolve, ms));
+        return new Promise<void>((resolve, reject) => {
+            const signal = this.policy.signal;
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new RetryAbortedError());
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort);
+        });
     }
 }
@@ -0,0 +1,118 @@
+/**
+ * What the generator downloaded into an assignment directory, used to tell
+ * changes made by the teacher on the server from changes made by the student.
+ */
+export interface StarterManifest {
+    files: { [filename: string]: StarterManifest.Entry };
+}
+
+export namespace StarterManifest {
+
+    export const FILENAME = '.starter_manifest';
+
+    export interface Entry {
+        sha256: string;
+        // Downloaded content, the common ancestor when merging later server versions
+        content?: string;
+    }
+
+    export function is(manifest: any): manifest is StarterManifest {
+        return !!manifest && typeof manifest.files === 'object' && manifest.files !== null;
+    }
+
+    export async function hash(content: string): Promise<string> {
+        return hashBytes(new TextEncoder().encode(content));
+    }
+
+    export async function hashBytes(bytes: Uint8Array): Promise<string> {
+        // `crypto.subtle` only exists in secure contexts, the IDE may be served over plain HTTP
+        const digest = typeof crypto !== 'undefined' && crypto.subtle !== undefined
+            ? new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+            : sha256(bytes);
+        return Array.from(digest)
+            .map(byte => ('0' + byte.toString(16)).slice(-2))
+            .join('');
+    }
+
+    const SHA256_K = [
+        0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+        0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+        0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+        0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+        0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+        0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+        0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+        0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+    ];
+
+    function rotr(value: number, bits: number): number {
+        return (value >>> bits) | (value << (32 - bits));
+    }
+
+    /**
+     * Plain SHA-256 for when the Web Crypto API is not available.
+     */
+    function sha256(bytes: Uint8Array): Uint8Array {
+        // Message, a 1 bit, zero padding and the 64 bit length in bits, in 64 byte blocks
+        const length = Math.ceil((bytes.length + 9) / 64) * 64;
+        const message = new Uint8Array(length);
+        message.set(bytes);
+        message[bytes.length] = 0x80;
+        const view = new DataView(message.buffer);
+        view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+        view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+        const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+        const w = new Array<number>(64);
+        for (let offset = 0; offset < length; offset += 64) {
+            for (let i = 0; i < 16; i++) {
+                w[i] = view.getUint32(offset + i * 4);
+            }
+            for (let i = 16; i < 64; i++) {
+                const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+                const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+                w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+            }
+
+            let [a, b, c, d, e, f, g, h] = hash;
+            for (let i = 0; i < 64; i++) {
+                const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+                const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+                h = g;
+                g = f;
+                f = e;
+                e = (d + t1) | 0;
+                d = c;
+                c = b;
+                b = a;
+                a = (t1 + t2) | 0;
+            }
+            [a, b, c, d, e, f, g, h].forEach((value, i) => hash[i] = (hash[i] + value) | 0);
+        }
+
+        const digest = new Uint8Array(32);
+        const digestView = new DataView(digest.buffer);
+        hash.forEach((value, i) => digestView.setUint32(i * 4, value >>> 0));
+        return digest;
+    }
+
+}
+
+export interface StarterFileUpdate {
+    filename: string;
+    // Content of the version downloaded before, undefined if it was not recorded
+    base?: string;
+    theirs: string;
+    // Content in the workspace, undefined if the student deleted the file
+    mine?: string;
+    locallyModified: boolean;
+}
+
+export interface StarterFileUpdates {
+    // Files the student had not changed, updated right away
+    updated: string[];
+    // Files changed both on the server and by the student, resolved with `applyStarterFileUpdate`
+    conflicting: StarterFileUpdate[];
+}
+
+export type StarterFileResolution = 'merge' | 'theirs' | 'mine';
@@ -0,0 +1,108 @@
+export interface MergeResult {
+    content: string;
+    // Number of regions changed on both sides, marked like git does
+    conflicts: number;
+}
+
+export interface MergeLabels {
+    mine: string;
+    theirs: string;
+}
+
+/**
+ * Line based three-way merge of two versions derived from the same base.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string, labels: MergeLabels): MergeResult {
+    const baseLines = splitLines(base);
+    const mineLines = splitLines(mine);
+    const theirsLines = splitLines(theirs);
+
+    const mineMatches = matchLines(baseLines, mineLines);
+    const theirsMatches = matchLines(baseLines, theirsLines);
+
+    const result: string[] = [];
+    let conflicts = 0;
+    let i = 0;
+    let a = 0;
+    let b = 0;
+
+    while (i < baseLines.length || a < mineLines.length || b < theirsLines.length) {
+        if (i < baseLines.length && mineMatches[i] === a && theirsMatches[i] === b) {
+            result.push(baseLines[i]);
+            i++;
+            a++;
+            b++;
+            continue;
+        }
+
+        // Next base line kept by both sides ends the changed region
+        let j = i;
+        while (j < baseLines.length && (mineMatches[j] === undefined || theirsMatches[j] === undefined)) {
+            j++;
+        }
+        const mineEnd = j < baseLines.length ? mineMatches[j]! : mineLines.length;
+        const theirsEnd = j < baseLines.length ? theirsMatches[j]! : theirsLines.length;
+
+        const baseChunk = baseLines.slice(i, j);
+        const mineChunk = mineLines.slice(a, mineEnd);
+        const theirsChunk = theirsLines.slice(b, theirsEnd);
+
+        if (linesEqual(mineChunk, baseChunk) || linesEqual(mineChunk, theirsChunk)) {
+            result.push(...theirsChunk);
+        } else if (linesEqual(theirsChunk, baseChunk)) {
+            result.push(...mineChunk);
+        } else {
+            conflicts++;
+            result.push(`<<<<<<< ${labels.mine}`, ...mineChunk, '=======', ...theirsChunk, `>>>>>>> ${labels.theirs}`);
+        }
+
+        i = j;
+        a = mineEnd;
+        b = theirsEnd;
+    }
+
+    return { content: result.join('\n'), conflicts };
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+function linesEqual(first: string[], second: string[]): boolean {
+    return first.length === second.length && first.every((line, index) => line === second[index]);
+}
+
+/**
+ * Maps each line of `base` that is part of the longest common subsequence to its index in `other`.
+ */
+function matchLines(base: string[], other: string[]): (number | undefined)[] {
+    // lengths[i][j] is the length of the longest common subsequence of base[i..] and other[j..]
+    const lengths: number[][] = [];
+    for (let i = base.length; i >= 0; i--) {
+        lengths[i] = new Array(other.length + 1).fill(0);
+        if (i === base.length) {
+            continue;
+        }
+        for (let j = other.length - 1; j >= 0; j--) {
+            lengths[i][j] = base[i] === other[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const matches: (number | undefined)[] = new Array(base.length).fill(undefined);
+    let i = 0;
+    let j = 0;
+    while (i < base.length && j < other.length) {
+        if (base[i] === other[j]) {
+            matches[i] = j;
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+}
@@ -18,5 +18,23 @@ interface Assignment {
     name: string;
     path: string;
     courseID: string;
-    files: any[];
+    files: AssignmentFile[];
+    // Milliseconds since the epoch, undefined if the assignment has no deadline
+    deadline?: number;
+    maxPoints?: number;
+    // Fetched when the details of the assignment are first shown
+    description?: AssignmentDescription;
+};
+
+interface AssignmentFile {
+    // Relative to the assignment directory
+    filename: string;
+    binary: boolean;
+    // Opened in the editor when the assignment is opened
+    show: boolean;
+};
+
+interface AssignmentDescription {
+    format: 'html' | 'markdown';
+    text: string;
 };
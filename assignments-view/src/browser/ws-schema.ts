@@ -0,0 +1,212 @@
+/**
+ * Validates `ws.php` responses where they enter the extension and turns them into typed values.
+ * A broken course, tutorial, assignment or file is skipped and reported, the rest is kept.
+ */
+
+export interface WsValidationIssue {
+    // Request the invalid data came from
+    url: string;
+    // Location of the invalid value in the response, e.g. `data[2].items[0].files[1]`
+    path: string;
+    message: string;
+}
+
+export interface WsCourse {
+    id: string;
+    name: string;
+    abbrev: string;
+    external: boolean;
+}
+
+export interface WsTutorial {
+    name: string;
+    path: string;
+    items: WsAssignment[];
+}
+
+export interface WsAssignment {
+    id: string;
+    name: string;
+    path: string;
+    files: AssignmentFile[];
+    deadline?: number | string;
+    maxPoints?: number;
+}
+
+/**
+ * Thrown by the decoders for the innermost invalid value.
+ */
+export class WsValidationError extends Error {
+
+    constructor(
+        readonly path: string,
+        readonly reason: string,
+    ) {
+        super(`${path}: ${reason}`);
+        this.name = 'WsValidationError';
+        Object.setPrototypeOf(this, WsValidationError.prototype);
+    }
+
+}
+
+/**
+ * Collects the issues of one response, so the data provider can report them together.
+ */
+export class WsDecodingContext {
+
+    readonly issues: WsValidationIssue[] = [];
+
+    constructor(readonly url: string) {}
+
+    /**
+     * Decodes every item of the array, skipping the ones that are invalid.
+     */
+    decodeItems<T>(value: any, path: string, decode: (item: any, path: string) => T): T[] {
+        if (value === undefined || value === null) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            throw new WsValidationError(path, `Expected array, got ${describeType(value)}`);
+        }
+
+        const items: T[] = [];
+        value.forEach((item, index) => {
+            const itemPath = `${path}[${index}]`;
+            try {
+                items.push(decode(item, itemPath));
+            } catch (err) {
+                if (!(err instanceof WsValidationError)) {
+                    throw err;
+                }
+                this.issues.push({ url: this.url, path: err.path, message: `${err.reason}, skipped ${itemPath}` });
+            }
+        });
+        return items;
+    }
+
+}
+
+export function decodeCoursesResponse(json: any, context: WsDecodingContext): WsCourse[] {
+    const response = expectObject(json, 'response');
+    return context.decodeItems(response.data, 'data', decodeCourse);
+}
+
+export function decodeCourseResponse(json: any, context: WsDecodingContext): WsTutorial[] {
+    const response = expectObject(json, 'response');
+    return context.decodeItems(response.data, 'data', (tutorial, path) => decodeTutorial(tutorial, path, context));
+}
+
+function decodeCourse(value: any, path: string): WsCourse {
+    const course = expectObject(value, path);
+    return {
+        id: expectID(course.id, `${path}.id`),
+        name: expectString(course.name, `${path}.name`),
+        abbrev: expectRelativePath(course.abbrev, `${path}.abbrev`),
+        external: optionalFlag(course.external, `${path}.external`) ?? false,
+    };
+}
+
+function decodeTutorial(value: any, path: string, context: WsDecodingContext): WsTutorial {
+    const tutorial = expectObject(value, path);
+    return {
+        name: expectString(tutorial.name, `${path}.name`),
+        path: expectRelativePath(tutorial.path, `${path}.path`),
+        items: context.decodeItems(tutorial.items, `${path}.items`, (item, itemPath) => decodeAssignment(item, itemPath, context)),
+    };
+}
+
+function decodeAssignment(value: any, path: string, context: WsDecodingContext): WsAssignment {
+    const assignment = expectObject(value, path);
+
+    const deadline = assignment.deadline;
+    if (deadline !== undefined && deadline !== null && typeof deadline !== 'number' && typeof deadline !== 'string') {
+        throw new WsValidationError(`${path}.deadline`, `Expected number or string, got ${describeType(deadline)}`);
+    }
+    const maxPoints = assignment.max_points;
+    if (maxPoints !== undefined && maxPoints !== null && typeof maxPoints !== 'number') {
+        throw new WsValidationError(`${path}.max_points`, `Expected number, got ${describeType(maxPoints)}`);
+    }
+
+    return {
+        id: expectID(assignment.id, `${path}.id`),
+        name: expectString(assignment.name, `${path}.name`),
+        path: expectRelativePath(assignment.path, `${path}.path`),
+        files: context.decodeItems(assignment.files, `${path}.files`, decodeFile),
+        deadline: deadline ?? undefined,
+        maxPoints: maxPoints ?? undefined,
+    };
+}
+
+/**
+ * Files are listed either by name, for text files opened in the editor, or as objects.
+ */
+function decodeFile(value: any, path: string): AssignmentFile {
+    if (typeof value === 'string') {
+        return { filename: expectRelativePath(value, path), binary: false, show: true };
+    }
+
+    const file = expectObject(value, path);
+    return {
+        filename: expectRelativePath(file.filename, `${path}.filename`),
+        binary: optionalFlag(file.binary, `${path}.binary`) ?? false,
+        show: optionalFlag(file.show, `${path}.show`) ?? false,
+    };
+}
+
+function expectObject(value: any, path: string): Record<string, any> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new WsValidationError(path, `Expected object, got ${describeType(value)}`);
+    }
+    return value;
+}
+
+function expectString(value: any, path: string): string {
+    if (typeof value !== 'string' || value === '') {
+        throw new WsValidationError(path, value === '' ? 'Must not be empty' : `Expected string, got ${describeType(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Ids are numbers in some responses and strings in others.
+ */
+function expectID(value: any, path: string): string {
+    if (typeof value === 'number' && Math.floor(value) === value) {
+        return String(value);
+    }
+    return expectString(value, path);
+}
+
+/**
+ * Paths end up in workspace URIs, so they must stay inside the workspace.
+ */
+function expectRelativePath(value: any, path: string): string {
+    const relativePath = expectString(value, path);
+    if (relativePath.startsWith('/') || relativePath.split(/[\\/]/).some(segment => segment === '..')) {
+        throw new WsValidationError(path, `Not a relative path inside the workspace: ${relativePath}`);
+    }
+    return relativePath;
+}
+
+/**
+ * PHP encodes flags as booleans, 0/1 or "0"/"1".
+ */
+function optionalFlag(value: any, path: string): boolean | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (value === 0 || value === 1 || value === '0' || value === '1') {
+        return value === 1 || value === '1';
+    }
+    throw new WsValidationError(path, `Expected boolean, got ${describeType(value)}`);
+}
+
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,186 @@
+import { injectable, inject } from 'inversify';
+import { FrontendApplicationContribution } from '@theia/core/lib/browser';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { ProblemManager } from '@theia/markers/lib/browser/problem/problem-manager';
+import URI from '@theia/core/lib/common/uri';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { AutotestService, TestDetails, TestResultStatus } from './autotest-service';
+import {
+    findRuntimeLocation,
+    getBaseName,
+    parseCompilerMessages,
+    parseUndefinedReferences,
+    SourceMessageSeverity
+} from './compiler-output-parser';
+
+interface PendingDiagnostic {
+    fileURI: string;
+    line: number;
+    column: number;
+    severity: DiagnosticSeverity;
+    message: string;
+    tests: string[];
+}
+
+/**
+ * Shows compile errors, missing symbols and crashes of failed autotests as markers
+ * on the student's source files, so they appear in the editor and the Problems view.
+ */
+@injectable()
+export class AutotestDiagnosticsContribution implements FrontendApplicationContribution {
+
+    private readonly MARKER_OWNER = 'autotest';
+    private readonly DIAGNOSTIC_STATUSES = [
+        TestResultStatus.TEST_COMPILE_FAILED,
+        TestResultStatus.TEST_SYMBOL_NOT_FOUND,
+        TestResultStatus.TEST_EXECUTION_CRASH,
+    ];
+
+    // Files that currently have autotest markers, per assignment directory
+    private markedFiles: Record<string, string[]> = {};
+
+    @inject(AutotestService)
+    protected readonly autotestService: AutotestService;
+
+    @inject(ProblemManager)
+    protected readonly problemManager: ProblemManager;
+
+    @inject(FileService)
+    protected readonly fileService: FileService;
+
+    onStart(): void {
+        this.autotestService.onTestsFinished(autotestEvent => this.updateDiagnostics(autotestEvent.program.uri));
+    }
+
+    public async updateDiagnostics(dirURI: string): Promise<void> {
+        const testsDetails = await this.autotestService.getTestsDetails(dirURI);
+        const pending = new Map<string, PendingDiagnostic>();
+
+        for (let index = 0; index < testsDetails.length; index++) {
+            const details = testsDetails[index];
+            if (details.success || !this.DIAGNOSTIC_STATUSES.includes(details.status)) {
+                continue;
+            }
+
+            const diagnostics = await this.collectDiagnostics(dirURI, details);
+            diagnostics.forEach(diagnostic => {
+                const key = `${diagnostic.fileURI}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+                const existing = pending.get(key);
+                if (existing !== undefined) {
+                    existing.tests.push(`Test ${index + 1}`);
+                } else {
+                    pending.set(key, { ...diagnostic, tests: [`Test ${index + 1}`] });
+                }
+            });
+        }
+
+        this.setMarkers(dirURI, Array.from(pending.values()));
+    }
+
+    private setMarkers(dirURI: string, pending: PendingDiagnostic[]) {
+        const byFile = new Map<string, Diagnostic[]>();
+        pending.forEach(diagnostic => {
+            const diagnostics = byFile.get(diagnostic.fileURI) ?? [];
+            diagnostics.push({
+                range: {
+                    start: { line: diagnostic.line, character: diagnostic.column },
+                    end: { line: diagnostic.line, character: Number.MAX_SAFE_INTEGER },
+                },
+                severity: diagnostic.severity,
+                source: 'autotest',
+                message: `${diagnostic.tests.join(', ')}: ${diagnostic.message}`,
+            });
+            byFile.set(diagnostic.fileURI, diagnostics);
+        });
+
+        (this.markedFiles[dirURI] ?? [])
+            .filter(fileURI => !byFile.has(fileURI))
+            .forEach(fileURI => this.problemManager.setMarkers(new URI(fileURI), this.MARKER_OWNER, []));
+
+        byFile.forEach((diagnostics, fileURI) => this.problemManager.setMarkers(new URI(fileURI), this.MARKER_OWNER, diagnostics));
+
+        this.markedFiles[dirURI] = Array.from(byFile.keys());
+    }
+
+    private async collectDiagnostics(dirURI: string, details: TestDetails): Promise<Omit<PendingDiagnostic, 'tests'>[]> {
+        const diagnostics: Omit<PendingDiagnostic, 'tests'>[] = [];
+
+        if (details.status === TestResultStatus.TEST_EXECUTION_CRASH) {
+            const location = findRuntimeLocation(details.runtimeOutput);
+            const fileURI = location && await this.resolveSourceFile(dirURI, location.file);
+            if (location && fileURI) {
+                diagnostics.push({
+                    fileURI,
+                    line: location.line,
+                    column: 0,
+                    severity: DiagnosticSeverity.Error,
+                    message: details.status.toString(),
+                });
+            }
+            return diagnostics;
+        }
+
+        for (const message of parseCompilerMessages(details.compileOutput)) {
+            const fileURI = await this.resolveSourceFile(dirURI, message.file);
+            if (fileURI) {
+                diagnostics.push({
+                    fileURI,
+                    line: message.line,
+                    column: message.column,
+                    severity: this.toDiagnosticSeverity(message.severity),
+                    message: message.message,
+                });
+            }
+        }
+
+        for (const reference of parseUndefinedReferences(details.compileOutput)) {
+            const fileURI = reference.file && await this.resolveSourceFile(dirURI, reference.file);
+            if (fileURI) {
+                diagnostics.push({
+                    fileURI,
+                    line: await this.findSymbolLine(fileURI, reference.symbol),
+                    column: 0,
+                    severity: DiagnosticSeverity.Error,
+                    message: `Undefined reference to '${reference.symbol}'`,
+                });
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Paths in the results point to the test host, so files are matched by name inside the assignment directory.
+     */
+    private async resolveSourceFile(dirURI: string, path: string): Promise<string | undefined> {
+        const fileURI = `${dirURI}/${getBaseName(path)}`;
+        try {
+            return await this.fileService.exists(new URI(fileURI)) ? fileURI : undefined;
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    private async findSymbolLine(fileURI: string, symbol: string): Promise<number> {
+        try {
+            const file = await this.fileService.read(new URI(fileURI));
+            // C++ symbols are reported with their signature, e.g. `sum(int, int)`
+            const name = symbol.split('(')[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const line = file.value.split('\n').findIndex(content => new RegExp(`\\b${name}\\b`).test(content));
+            return Math.max(line, 0);
+        } catch (_) {
+            return 0;
+        }
+    }
+
+    private toDiagnosticSeverity(severity: SourceMessageSeverity): DiagnosticSeverity {
+        if (severity === 'warning') {
+            return DiagnosticSeverity.Warning;
+        }
+        if (severity === 'note') {
+            return DiagnosticSeverity.Information;
+        }
+        return DiagnosticSeverity.Error;
+    }
+
+}
@@ -0,0 +1,25 @@
+import { injectable } from 'inversify';
+import { WidgetOpenHandler } from '@theia/core/lib/browser';
+import URI from '@theia/core/lib/common/uri';
+import { AutotestEditorWidget, AutotestEditorWidgetOptions } from './autotest-editor-widget';
+
+/**
+ * Opens `.autotest2` files in the form based autotest editor instead of the text editor.
+ */
+@injectable()
+export class AutotestEditorOpenHandler extends WidgetOpenHandler<AutotestEditorWidget> {
+
+    static readonly AUTOTEST_FILE_NAME = '.autotest2';
+
+    readonly id = AutotestEditorWidget.ID;
+    readonly label = 'Autotest Editor';
+
+    canHandle(uri: URI): number {
+        return uri.path.base === AutotestEditorOpenHandler.AUTOTEST_FILE_NAME ? 500 : 0;
+    }
+
+    protected createWidgetOptions(uri: URI): AutotestEditorWidgetOptions {
+        return { uri: uri.withoutFragment().toString() };
+    }
+
+}
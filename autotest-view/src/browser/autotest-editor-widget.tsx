@@ -0,0 +1,505 @@
+import * as React from 'react';
+import { injectable, postConstruct, inject } from 'inversify';
+import { ReactWidget } from '@theia/core/lib/browser/widgets/react-widget';
+import { Saveable, SaveableSource, setDirty } from '@theia/core/lib/browser/saveable';
+import { MessageService } from '@theia/core';
+import { Emitter } from '@theia/core/lib/common/event';
+import { EditorManager } from '@theia/editor/lib/browser';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { WorkspaceService } from '@theia/workspace/lib/browser';
+import URI from '@theia/core/lib/common/uri';
+import { AutotestService, AutotestEvent, RunFailedEvent } from './autotest-service';
+import {
+    AutotestValidationError,
+    JsonParseError,
+    OUTPUT_MATCHING,
+    parseAutotestContent,
+    PATCH_POSITIONS,
+    validateAutotest
+} from './autotest-schema';
+import { AutotestRunError } from './autotest-errors';
+
+export const AutotestEditorWidgetOptions = Symbol('AutotestEditorWidgetOptions');
+export interface AutotestEditorWidgetOptions {
+    uri: string;
+}
+
+interface AutotestEditorState {
+    autotest: any;
+    parseError: JsonParseError | undefined;
+    errors: AutotestValidationError[];
+    referenceDirectory: string;
+    referenceMessage: string;
+    referenceResults: string[];
+    isTestingReference: boolean;
+}
+
+@injectable()
+export class AutotestEditorWidget extends ReactWidget implements SaveableSource, Saveable {
+
+    static readonly ID = 'autotest-view:editor';
+
+    private state: AutotestEditorState = {
+        autotest: undefined,
+        parseError: undefined,
+        errors: [],
+        referenceDirectory: '',
+        referenceMessage: '',
+        referenceResults: [],
+        isTestingReference: false,
+    };
+
+    private isDirty = false;
+    private referenceRunURI: string | undefined;
+    // The draft being tried, its tests may differ from the saved autotest file
+    private referenceAutotest: any;
+
+    private readonly onDirtyChangedEmitter = new Emitter<void>();
+    readonly onDirtyChanged = this.onDirtyChangedEmitter.event;
+    readonly autoSave = 'off';
+
+    @inject(AutotestEditorWidgetOptions)
+    protected readonly options!: AutotestEditorWidgetOptions;
+
+    @inject(MessageService)
+    protected readonly messageService!: MessageService;
+
+    @inject(FileService)
+    protected readonly fileService!: FileService;
+
+    @inject(WorkspaceService)
+    protected readonly workspaceService!: WorkspaceService;
+
+    @inject(EditorManager)
+    protected readonly editorManager!: EditorManager;
+
+    @inject(AutotestService)
+    protected readonly autotestService!: AutotestService;
+
+    @postConstruct()
+    protected async init(): Promise<void> {
+        const uri = new URI(this.options.uri);
+        this.id = `${AutotestEditorWidget.ID}:${this.options.uri}`;
+        this.title.label = `${uri.parent.path.base}/${uri.path.base}`;
+        this.title.caption = this.options.uri;
+        this.title.closable = true;
+        this.title.iconClass = 'fa fa-check-square-o';
+        this.addClass('autotest-editor');
+
+        this.toDispose.push(this.onDirtyChangedEmitter);
+        this.toDispose.push(this.autotestService.onTestsUpdate(event => this.handleReferenceProgress(event)));
+        this.toDispose.push(this.autotestService.onTestsFinished(event => this.handleReferenceFinished(event)));
+        this.toDispose.push(this.autotestService.onTestsFailed(event => this.handleReferenceStopped(event.program.uri, 'The autotester did not return results.')));
+        this.toDispose.push(this.autotestService.onTestsCanceled(event => this.handleReferenceStopped(event.program.uri, 'Testing was canceled.')));
+        // Queued runs that could not be started or were canceled have no program, only their directory
+        this.toDispose.push(this.autotestService.onRunFailed(event => this.handleReferenceRunFailed(event)));
+        this.toDispose.push(this.autotestService.onRunCanceled(event => this.handleReferenceStopped(event.uri, 'Testing was canceled.')));
+
+        this.setState(state => {
+            state.referenceDirectory = this.getPathInWorkspace(uri.parent.toString());
+        });
+
+        await this.load();
+    }
+
+    get saveable(): Saveable {
+        return this;
+    }
+
+    get dirty(): boolean {
+        return this.isDirty;
+    }
+
+    public async save(): Promise<void> {
+        if (this.state.autotest === undefined) {
+            return;
+        }
+
+        const content = JSON.stringify(this.state.autotest, null, 4);
+        await this.fileService.write(new URI(this.options.uri), content);
+        this.setDirtyState(false);
+    }
+
+    private async load() {
+        let content = '';
+        try {
+            const file = await this.fileService.read(new URI(this.options.uri));
+            content = file.value;
+        } catch (err) {
+            console.log(`Could not read ${this.options.uri}: ${err}`);
+        }
+
+        const parsed = parseAutotestContent(content);
+        this.setState(state => {
+            if ('error' in parsed) {
+                state.autotest = undefined;
+                state.parseError = parsed.error;
+                state.errors = [];
+            } else {
+                state.autotest = parsed.autotest;
+                state.parseError = undefined;
+                state.errors = validateAutotest(parsed.autotest);
+            }
+        });
+        this.setDirtyState(false);
+    }
+
+    private setState(update: (state: AutotestEditorState) => void) {
+        update(this.state);
+        this.update();
+    }
+
+    private setDirtyState(dirty: boolean) {
+        if (this.isDirty !== dirty) {
+            this.isDirty = dirty;
+            setDirty(this, dirty);
+            this.onDirtyChangedEmitter.fire(undefined);
+        }
+    }
+
+    private updateAutotest(update: (autotest: any) => void) {
+        this.setState(state => {
+            update(state.autotest);
+            state.errors = validateAutotest(state.autotest);
+        });
+        this.setDirtyState(true);
+    }
+
+    private updateTest(index: number, update: (test: any) => void) {
+        this.updateAutotest(autotest => update(autotest.tests[index]));
+    }
+
+    protected render(): React.ReactNode {
+        if (this.state.parseError !== undefined) {
+            return this.renderParseError(this.state.parseError);
+        }
+
+        if (this.state.autotest === undefined) {
+            return <div className="autotest-editor-container">Loading...</div>;
+        }
+
+        const tests: any[] = Array.isArray(this.state.autotest.tests) ? this.state.autotest.tests : [];
+
+        return <div className="autotest-editor-container">
+            {this.renderToolbar()}
+            {this.renderErrorSummary()}
+            {this.renderTaskMetadata()}
+            <h3>Tests</h3>
+            {tests.map((test, index) => this.renderTest(test, index))}
+            <button className="theia-button secondary" onClick={() => this.handleAddTest()}>Add test</button>
+        </div>;
+    }
+
+    private renderParseError(error: JsonParseError): React.ReactNode {
+        return <div className="autotest-editor-container">
+            <div className="autotest-editor-error">
+                {`The autotest file is not valid JSON (line ${error.line}, column ${error.column}): ${error.message}`}
+            </div>
+            <div className="autotest-editor-toolbar">
+                <button className="theia-button" onClick={() => this.openAsText()}>Open as text</button>
+                <button className="theia-button secondary" onClick={() => this.load()}>Reload</button>
+            </div>
+        </div>;
+    }
+
+    private renderToolbar(): React.ReactNode {
+        return <div className="autotest-editor-toolbar">
+            <button className="theia-button" disabled={!this.isDirty} onClick={() => this.save()}>Save</button>
+            <button className="theia-button secondary" onClick={() => this.openAsText()}>Open as text</button>
+            <span className="autotest-editor-reference">
+                <label>Reference solution</label>
+                <input
+                    className="theia-input"
+                    value={this.state.referenceDirectory}
+                    placeholder="Directory in workspace"
+                    onChange={event => {
+                        const value = event.target.value;
+                        this.setState(state => state.referenceDirectory = value);
+                    }}
+                />
+                <button
+                    className="theia-button secondary"
+                    disabled={this.state.isTestingReference}
+                    onClick={() => this.handleTryReference()}
+                >
+                    Try it
+                </button>
+            </span>
+            {this.state.referenceMessage && <div className="autotest-editor-reference-result">
+                <span>{this.state.referenceMessage}</span>
+                {this.state.referenceResults.map(result => <span key={result} className="test-details-note">{result}</span>)}
+            </div>}
+        </div>;
+    }
+
+    private renderErrorSummary(): React.ReactNode {
+        if (this.state.errors.length === 0) {
+            return undefined;
+        }
+
+        return <ul className="autotest-editor-error">
+            {this.state.errors.map(error => <li key={`${error.path}:${error.message}`}>{`${error.path}: ${error.message}`}</li>)}
+        </ul>;
+    }
+
+    private renderTaskMetadata(): React.ReactNode {
+        const autotest = this.state.autotest;
+        const languages: string[] = Array.isArray(autotest.languages) ? autotest.languages : [];
+
+        return <div className="autotest-editor-section">
+            {this.renderInput('Name', 'name', autotest.name ?? '', value => this.updateAutotest(task => task.name = value || undefined))}
+            {this.renderNumberInput('Id', 'id', autotest.id, value => this.updateAutotest(task => task.id = value))}
+            {this.renderInput('Languages', 'languages', languages.join(', '), value => this.updateAutotest(task => {
+                task.languages = value.split(',').map(language => language.trim()).filter(language => !!language);
+            }))}
+            {this.renderInput('Compiler', 'tools.compile.require', autotest.tools?.compile?.require ?? '', value => this.updateAutotest(task => {
+                this.ensureObject(task, 'tools', 'compile').require = value || undefined;
+            }))}
+            {this.renderNumberInput('Timeout (s)', 'tools.execute.environment.timeout', autotest.tools?.execute?.environment?.timeout, value => this.updateAutotest(task => {
+                this.ensureObject(task, 'tools', 'execute', 'environment').timeout = value;
+            }))}
+        </div>;
+    }
+
+    private renderTest(test: any, index: number): React.ReactNode {
+        const path = `tests[${index}]`;
+        const options: string[] = Array.isArray(test.options) ? test.options : [];
+        const patches: any[] = Array.isArray(test.patch) ? test.patch : [];
+        const expected: string[] = Array.isArray(test.execute?.expect) ? test.execute.expect : [];
+
+        return <div key={index} className="autotest-editor-section autotest-editor-test">
+            <div className="autotest-editor-test-header">
+                <span className="test-details-title">{test.name || `Test ${index + 1}`}</span>
+                <span>
+                    <button className="theia-button secondary" onClick={() => this.handleDuplicateTest(index)}>Duplicate</button>
+                    <button className="theia-button secondary" onClick={() => this.handleRemoveTest(index)}>Remove</button>
+                </span>
+            </div>
+            {this.renderFieldErrors(path)}
+            {this.renderNumberInput('Id', `${path}.id`, test.id, value => this.updateTest(index, t => t.id = value))}
+            {this.renderInput('Name', `${path}.name`, test.name ?? '', value => this.updateTest(index, t => t.name = value || undefined))}
+            <div className="autotest-editor-field">
+                <label>Silent</label>
+                <input
+                    type="checkbox"
+                    checked={options.includes('silent')}
+                    onChange={event => {
+                        const checked = event.target.checked;
+                        this.updateTest(index, t => {
+                            const current: string[] = (t.options ?? []).filter((option: string) => option !== 'silent');
+                            t.options = checked ? [...current, 'silent'] : current;
+                        });
+                    }}
+                />
+            </div>
+            {patches.map((patch, patchIndex) => this.renderPatch(index, patch, patchIndex))}
+            <button className="theia-button secondary" onClick={() => this.updateTest(index, t => {
+                t.patch = [...(t.patch ?? []), { position: 'main', code: '' }];
+            })}>Add code patch</button>
+            {this.renderInput('Input', `${path}.execute.input`, test.execute?.input ?? '', value => this.updateTest(index, t => {
+                this.ensureObject(t, 'execute').input = value || undefined;
+            }), true)}
+            {expected.map((variant, variantIndex) => <div key={variantIndex} className="autotest-editor-field">
+                <label>{variantIndex === 0 ? 'Expected output' : `Alternative ${variantIndex}`}</label>
+                <textarea
+                    className="theia-input"
+                    value={variant}
+                    onChange={event => {
+                        const value = event.target.value;
+                        this.updateTest(index, t => t.execute.expect[variantIndex] = value);
+                    }}
+                />
+                <button className="theia-button secondary" onClick={() => this.updateTest(index, t => {
+                    t.execute.expect.splice(variantIndex, 1);
+                })}>Remove</button>
+                {this.renderFieldErrors(`${path}.execute.expect[${variantIndex}]`)}
+            </div>)}
+            <button className="theia-button secondary" onClick={() => this.updateTest(index, t => {
+                const execute = this.ensureObject(t, 'execute');
+                execute.expect = [...(execute.expect ?? []), ''];
+            })}>Add expected output</button>
+            {this.renderSelect('Matching', `${path}.execute.matching`, test.execute?.matching ?? '', ['', ...OUTPUT_MATCHING], value => this.updateTest(index, t => {
+                this.ensureObject(t, 'execute').matching = value || undefined;
+            }))}
+            {this.renderNumberInput('Timeout (s)', `${path}.execute.environment.timeout`, test.execute?.environment?.timeout, value => this.updateTest(index, t => {
+                this.ensureObject(t, 'execute', 'environment').timeout = value;
+            }))}
+        </div>;
+    }
+
+    private renderPatch(testIndex: number, patch: any, patchIndex: number): React.ReactNode {
+        const path = `tests[${testIndex}].patch[${patchIndex}]`;
+        const updatePatch = (update: (p: any) => void) => this.updateTest(testIndex, t => update(t.patch[patchIndex]));
+
+        return <div key={patchIndex} className="autotest-editor-patch">
+            {this.renderSelect('Code position', `${path}.position`, patch.position ?? '', PATCH_POSITIONS, value => updatePatch(p => p.position = value))}
+            {this.renderInput('Code', `${path}.code`, patch.code ?? '', value => updatePatch(p => p.code = value), true)}
+            <button className="theia-button secondary" onClick={() => this.updateTest(testIndex, t => t.patch.splice(patchIndex, 1))}>
+                Remove code patch
+            </button>
+        </div>;
+    }
+
+    private renderInput(label: string, path: string, value: string, onChange: (value: string) => void, multiline: boolean = false): React.ReactNode {
+        return <div className="autotest-editor-field">
+            <label>{label}</label>
+            {multiline
+                ? <textarea className="theia-input" value={value} onChange={event => onChange(event.target.value)} />
+                : <input className="theia-input" value={value} onChange={event => onChange(event.target.value)} />}
+            {this.renderFieldErrors(path)}
+        </div>;
+    }
+
+    private renderNumberInput(label: string, path: string, value: number | undefined, onChange: (value: number | undefined) => void): React.ReactNode {
+        return <div className="autotest-editor-field">
+            <label>{label}</label>
+            <input
+                className="theia-input"
+                type="number"
+                value={value ?? ''}
+                onChange={event => onChange(event.target.value === '' ? undefined : Number(event.target.value))}
+            />
+            {this.renderFieldErrors(path)}
+        </div>;
+    }
+
+    private renderSelect(label: string, path: string, value: string, options: string[], onChange: (value: string) => void): React.ReactNode {
+        return <div className="autotest-editor-field">
+            <label>{label}</label>
+            <select className="theia-select" value={value} onChange={event => onChange(event.target.value)}>
+                {options.map(option => <option key={option} value={option}>{option || 'default'}</option>)}
+            </select>
+            {this.renderFieldErrors(path)}
+        </div>;
+    }
+
+    private renderFieldErrors(path: string): React.ReactNode {
+        const errors = this.state.errors.filter(error => error.path === path);
+        if (errors.length === 0) {
+            return undefined;
+        }
+
+        return <span className="autotest-editor-field-error">{errors.map(error => error.message).join('; ')}</span>;
+    }
+
+    /**
+     * Returns the object at the given property path, creating missing objects on the way.
+     */
+    private ensureObject(target: any, ...properties: string[]): any {
+        return properties.reduce((current, property) => {
+            if (current[property] === undefined || current[property] === null || typeof current[property] !== 'object') {
+                current[property] = {};
+            }
+            return current[property];
+        }, target);
+    }
+
+    private handleAddTest() {
+        this.updateAutotest(autotest => {
+            const tests: any[] = Array.isArray(autotest.tests) ? autotest.tests : [];
+            const nextID = tests.reduce((max, test) => Math.max(max, Number(test.id) || 0), 0) + 1;
+            autotest.tests = [...tests, { id: nextID, execute: { input: '', expect: [''] } }];
+        });
+    }
+
+    private handleDuplicateTest(index: number) {
+        this.updateAutotest(autotest => {
+            const tests: any[] = autotest.tests;
+            const nextID = tests.reduce((max, test) => Math.max(max, Number(test.id) || 0), 0) + 1;
+            const copy = { ...JSON.parse(JSON.stringify(tests[index])), id: nextID };
+            tests.splice(index + 1, 0, copy);
+        });
+    }
+
+    private handleRemoveTest(index: number) {
+        this.updateAutotest(autotest => autotest.tests.splice(index, 1));
+    }
+
+    private async openAsText() {
+        await this.editorManager.open(new URI(this.options.uri));
+    }
+
+    private async handleTryReference() {
+        if (this.state.errors.length > 0) {
+            this.messageService.error('Please fix the autotest errors before trying it against the reference solution.');
+            return;
+        }
+
+        const workspaceURI = this.workspaceService.workspace?.resource.toString() ?? '';
+        const relativePath = this.state.referenceDirectory.replace(/^\/+|\/+$/g, '');
+        const dirURI = relativePath ? `${workspaceURI}/${relativePath}` : workspaceURI;
+
+        this.referenceRunURI = dirURI;
+        this.referenceAutotest = JSON.parse(JSON.stringify(this.state.autotest));
+        this.setState(state => {
+            state.isTestingReference = true;
+            state.referenceMessage = 'Submitting the reference solution...';
+            state.referenceResults = [];
+        });
+
+        // The draft's results must not replace the results of the directory's own autotest file
+        const runInfo = await this.autotestService.runTask(dirURI, this.referenceAutotest, true, false);
+        // A run canceled while being submitted was already reported
+        if (!runInfo.success && this.referenceRunURI === dirURI) {
+            this.referenceRunURI = undefined;
+            this.setState(state => {
+                state.isTestingReference = false;
+                state.referenceMessage = 'Could not test the reference solution. Check that the directory exists and is not already being tested.';
+            });
+        }
+    }
+
+    private handleReferenceProgress(event: AutotestEvent) {
+        const program = event.program;
+        if (program.uri !== this.referenceRunURI || program.result === undefined) {
+            return;
+        }
+
+        this.setState(state => {
+            state.referenceMessage = `${program.status.toString()} Completed ${program.result?.completedTests} out of ${program.totalTests} tests...`;
+        });
+    }
+
+    private handleReferenceFinished(event: AutotestEvent) {
+        const dirURI = event.program.uri;
+        if (dirURI !== this.referenceRunURI) {
+            return;
+        }
+
+        this.referenceRunURI = undefined;
+        const tests: any[] = this.referenceAutotest?.tests ?? [];
+        const details = this.autotestService.getTaskTestsDetails(this.referenceAutotest, event.result);
+        const passed = details.filter(test => test.success).length;
+
+        this.setState(state => {
+            state.isTestingReference = false;
+            state.referenceMessage = `The reference solution passed ${passed} out of ${details.length} tests.`;
+            state.referenceResults = details
+                .filter(test => !test.success)
+                .map(test => `Test ${tests.findIndex(t => Number(t.id) === test.id) + 1}: ${test.status.toString()}`);
+        });
+    }
+
+    private handleReferenceStopped(dirURI: string, message: string) {
+        if (dirURI !== this.referenceRunURI) {
+            return;
+        }
+
+        this.referenceRunURI = undefined;
+        this.setState(state => {
+            state.isTestingReference = false;
+            state.referenceMessage = message;
+        });
+    }
+
+    private handleReferenceRunFailed(event: RunFailedEvent) {
+        const error = event.runInfo.error;
+        this.handleReferenceStopped(event.uri, `Could not submit the reference solution.${error !== undefined ? ` ${AutotestRunError.describe(error)}` : ''}`);
+    }
+
+    private getPathInWorkspace(uri: string): string {
+        const workspaceUri = this.workspaceService.workspace?.resource.toString() ?? '';
+        return uri.slice(workspaceUri.length).replace(/^\/+/, '');
+    }
+
+}
@@ -0,0 +1,148 @@
+/**
+ * Thrown by autotester backends when the server answers with an unexpected HTTP status.
+ */
+export class AutotesterHttpError extends Error {
+
+    constructor(
+        readonly url: string,
+        readonly status: number,
+        readonly statusText: string,
+        readonly body: string,
+    ) {
+        super(`Autotester responded with ${status} ${statusText}`);
+        this.name = 'AutotesterHttpError';
+        Object.setPrototypeOf(this, AutotesterHttpError.prototype);
+    }
+
+}
+
+/**
+ * Thrown by autotester backends when the server handled the request but reported a failure.
+ */
+export class AutotesterServerError extends Error {
+
+    constructor(
+        readonly url: string,
+        readonly serverMessage: string,
+        readonly code?: string,
+    ) {
+        super(`Autotester error${code ? ` ${code}` : ''}: ${serverMessage}`);
+        this.name = 'AutotesterServerError';
+        Object.setPrototypeOf(this, AutotesterServerError.prototype);
+    }
+
+}
+
+/**
+ * Thrown when a file of the assignment could not be read before uploading it.
+ */
+export class AssignmentFileReadError extends Error {
+
+    constructor(
+        readonly fileURI: string,
+        readonly reason: string,
+    ) {
+        super(`Could not read ${fileURI}: ${reason}`);
+        this.name = 'AssignmentFileReadError';
+        Object.setPrototypeOf(this, AssignmentFileReadError.prototype);
+    }
+
+}
+
+export type AutotestRunError =
+    { kind: 'autotest-file-corrupt', file: string, message: string, line: number, column: number }
+    | { kind: 'file-read', file: string, message: string }
+    | { kind: 'http', url: string, status: number, statusText: string, body: string }
+    | { kind: 'server', url: string, message: string, code?: string }
+    | { kind: 'upload-too-large', size: number, maxSize: number, largestFiles: string[] }
+    | { kind: 'unknown', message: string };
+
+export namespace AutotestRunError {
+
+    // Server responses can be whole HTML error pages, only the start is useful in a report
+    const MAX_BODY_LENGTH = 2000;
+
+    export function fromException(err: any): AutotestRunError {
+        if (err instanceof AutotesterHttpError) {
+            return {
+                kind: 'http',
+                url: err.url,
+                status: err.status,
+                statusText: err.statusText,
+                body: err.body.slice(0, MAX_BODY_LENGTH),
+            };
+        }
+        if (err instanceof AutotesterServerError) {
+            return { kind: 'server', url: err.url, message: err.serverMessage, code: err.code };
+        }
+        if (err instanceof AssignmentFileReadError) {
+            return { kind: 'file-read', file: err.fileURI, message: err.reason };
+        }
+        return { kind: 'unknown', message: err instanceof Error ? err.message : String(err) };
+    }
+
+    /**
+     * Short explanation shown to the student.
+     */
+    export function describe(error: AutotestRunError): string {
+        switch (error.kind) {
+            case 'autotest-file-corrupt':
+                return `Autotests are corrupt (line ${error.line}, column ${error.column}). Please contact your supervisor!`;
+            case 'file-read':
+                return `Could not read ${getFileName(error.file)}.`;
+            case 'http':
+                return `The autotester responded with ${error.status} ${error.statusText}.`;
+            case 'server':
+                return `The autotester reported an error: ${error.message}`;
+            case 'upload-too-large':
+                return `The files to upload take ${formatSize(error.size)}, more than the allowed ${formatSize(error.maxSize)}. `
+                    + `The largest are ${error.largestFiles.join(', ')}.`;
+            default:
+                return `Unexpected error: ${error.message}`;
+        }
+    }
+
+    /**
+     * Complete report meant to be copied and sent to the course staff.
+     */
+    export function toReport(error: AutotestRunError, context: Record<string, string>): string {
+        const lines = [
+            'Autotest diagnostics',
+            `Time: ${new Date().toISOString()}`,
+            ...Object.entries(context).map(([key, value]) => `${key}: ${value}`),
+            `Error: ${error.kind}`,
+        ];
+
+        switch (error.kind) {
+            case 'autotest-file-corrupt':
+                lines.push(`File: ${error.file}`, `Location: line ${error.line}, column ${error.column}`, `Message: ${error.message}`);
+                break;
+            case 'file-read':
+                lines.push(`File: ${error.file}`, `Message: ${error.message}`);
+                break;
+            case 'http':
+                lines.push(`URL: ${error.url}`, `Status: ${error.status} ${error.statusText}`, 'Body:', error.body);
+                break;
+            case 'server':
+                lines.push(`URL: ${error.url}`, `Code: ${error.code ?? '-'}`, `Message: ${error.message}`);
+                break;
+            case 'upload-too-large':
+                lines.push(`Size: ${error.size} bytes`, `Limit: ${error.maxSize} bytes`, `Largest files: ${error.largestFiles.join(', ')}`);
+                break;
+            default:
+                lines.push(`Message: ${error.message}`);
+        }
+
+        lines.push(`User agent: ${navigator.userAgent}`);
+        return lines.join('\n');
+    }
+
+    export function formatSize(bytes: number): string {
+        return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+    }
+
+    function getFileName(fileURI: string): string {
+        return fileURI.slice(fileURI.lastIndexOf('/') + 1);
+    }
+
+}
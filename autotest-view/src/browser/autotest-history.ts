@@ -0,0 +1,115 @@
+import { injectable, inject } from 'inversify';
+import { Emitter } from '@theia/core/lib/common/event';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import URI from '@theia/core/lib/common/uri';
+import { TestResultStatus } from './autotest-service';
+
+export interface AutotestRunRecord {
+    timestamp: number;
+    programID: number;
+    taskID: number | undefined;
+    passed: number;
+    total: number;
+    tests: AutotestRunTestRecord[];
+}
+
+export interface AutotestRunTestRecord {
+    id: number;
+    success: boolean;
+    status: TestResultStatus;
+}
+
+export interface AutotestRunComparison {
+    regressed: number[];
+    fixed: number[];
+    stillFailing: number[];
+    added: number[];
+    removed: number[];
+}
+
+export interface AutotestHistoryEvent {
+    dirURI: string;
+    history: AutotestRunRecord[];
+}
+
+@injectable()
+export class AutotestHistoryService {
+
+    private readonly HISTORY_FILENAME = '.at_history';
+    private readonly MAX_HISTORY_ENTRIES = 200;
+
+    private readonly onHistoryChangedEmitter = new Emitter<AutotestHistoryEvent>();
+    readonly onHistoryChanged = this.onHistoryChangedEmitter.event;
+
+    constructor(
+        @inject(FileService) private readonly fileService: FileService,
+    ) {}
+
+    public async getHistory(dirURI: string): Promise<AutotestRunRecord[]> {
+        try {
+            const file = await this.fileService.read(this.getHistoryURI(dirURI));
+            const history = JSON.parse(file.value);
+            return Array.isArray(history) ? history : [];
+        } catch (_) {
+            return [];
+        }
+    }
+
+    public async addRun(dirURI: string, run: AutotestRunRecord): Promise<void> {
+        const history = await this.getHistory(dirURI);
+        history.push(run);
+
+        const trimmed = history.slice(-this.MAX_HISTORY_ENTRIES);
+        const content = JSON.stringify(trimmed, null, 4);
+
+        try {
+            await this.fileService.write(this.getHistoryURI(dirURI), content);
+        } catch (_) {
+            await this.fileService.create(this.getHistoryURI(dirURI), content);
+        }
+
+        this.onHistoryChangedEmitter.fire({ dirURI, history: trimmed });
+    }
+
+    /**
+     * Compares an older run with a newer one, test by test.
+     */
+    public compareRuns(older: AutotestRunRecord, newer: AutotestRunRecord): AutotestRunComparison {
+        const olderTests = new Map(older.tests.map(test => [test.id, test] as [number, AutotestRunTestRecord]));
+        const newerTests = new Map(newer.tests.map(test => [test.id, test] as [number, AutotestRunTestRecord]));
+
+        const comparison: AutotestRunComparison = {
+            regressed: [],
+            fixed: [],
+            stillFailing: [],
+            added: [],
+            removed: [],
+        };
+
+        newerTests.forEach((test, id) => {
+            const previous = olderTests.get(id);
+            if (previous === undefined) {
+                comparison.added.push(id);
+            } else if (previous.success && !test.success) {
+                comparison.regressed.push(id);
+            } else if (!previous.success && test.success) {
+                comparison.fixed.push(id);
+            } else if (!test.success) {
+                comparison.stillFailing.push(id);
+            }
+        });
+
+        olderTests.forEach((_, id) => {
+            if (!newerTests.has(id)) {
+                comparison.removed.push(id);
+            }
+        });
+
+        return comparison;
+    }
+
+    private getHistoryURI(dirURI: string): URI {
+        return new URI(`${dirURI}/${this.HISTORY_FILENAME}`);
+    }
+
+}
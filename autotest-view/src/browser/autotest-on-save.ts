@@ -0,0 +1,171 @@
+import { injectable, inject } from 'inversify';
+import { MessageService } from '@theia/core';
+import { FrontendApplicationContribution } from '@theia/core/lib/browser';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { FileChangesEvent, FileChangeType } from '@theia/filesystem/lib/common/files';
+import { WorkspaceService } from '@theia/workspace/lib/browser';
+import URI from '@theia/core/lib/common/uri';
+import { AutotestService, AutotestRunStatus, AutotestEvent } from './autotest-service';
+import { AutotestPreferences } from './autotest-preferences';
+
+/**
+ * Runs the autotests of an assignment in the background when its files are saved,
+ * if enabled with the `autotest.testOnSave` preference.
+ */
+@injectable()
+export class AutotestOnSaveContribution implements FrontendApplicationContribution {
+
+    private readonly AUTOTEST_FILENAME = '.autotest2';
+    private readonly DEBOUNCE_MS = 1500;
+
+    private timers = new Map<string, number>();
+    // Directories whose current run was started by this contribution
+    private backgroundRuns = new Set<string>();
+    private passCounts = new Map<string, number>();
+
+    @inject(AutotestService)
+    protected readonly autotestService: AutotestService;
+
+    @inject(FileService)
+    protected readonly fileService: FileService;
+
+    @inject(WorkspaceService)
+    protected readonly workspaceService: WorkspaceService;
+
+    @inject(MessageService)
+    protected readonly messageService: MessageService;
+
+    @inject(AutotestPreferences)
+    protected readonly preferences: AutotestPreferences;
+
+    onStart(): void {
+        this.fileService.onDidFilesChange(event => this.handleFilesChange(event));
+        this.autotestService.onTestsFinished(event => this.handleTestsFinished(event));
+        this.autotestService.onTestsFailed(event => this.backgroundRuns.delete(event.program.uri));
+        this.autotestService.onTestsCanceled(event => this.backgroundRuns.delete(event.program.uri));
+        this.autotestService.onRunFailed(event => this.backgroundRuns.delete(event.uri));
+        this.autotestService.onRunCanceled(event => this.backgroundRuns.delete(event.uri));
+
+        this.preferences.onPreferenceChanged(event => {
+            if (event.preferenceName === 'autotest.testOnSave' && !event.newValue) {
+                this.timers.forEach(timer => window.clearTimeout(timer));
+                this.timers.clear();
+            }
+        });
+    }
+
+    private async handleFilesChange(event: FileChangesEvent) {
+        if (!this.preferences['autotest.testOnSave']) {
+            return;
+        }
+
+        const changedFiles = event.changes
+            .filter(change => change.type !== FileChangeType.DELETED)
+            .map(change => change.resource);
+
+        const directories = new Set<string>();
+        for (const fileURI of changedFiles) {
+            const dirURI = await this.findAssignmentDirectory(fileURI);
+            if (dirURI !== undefined && await this.isTestedFile(dirURI, fileURI.toString())) {
+                directories.add(dirURI);
+            }
+        }
+
+        directories.forEach(dirURI => this.scheduleRun(dirURI));
+    }
+
+    /**
+     * Finds the closest directory of the file, inside the workspace, that has autotests.
+     */
+    private async findAssignmentDirectory(fileURI: URI): Promise<string | undefined> {
+        const workspaceURI = this.workspaceService.workspace?.resource.toString();
+        if (workspaceURI === undefined || !fileURI.toString().startsWith(workspaceURI)) {
+            return undefined;
+        }
+
+        let dir = fileURI.parent;
+        while (dir.toString().length >= workspaceURI.length) {
+            if (await this.fileService.exists(dir.resolve(this.AUTOTEST_FILENAME))) {
+                return dir.toString();
+            }
+            if (dir.path.isRoot) {
+                break;
+            }
+            dir = dir.parent;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Ignores files that are not tested anyway, like results, history and build artefacts.
+     * Changes to the autotests themselves are tested too.
+     */
+    private async isTestedFile(dirURI: string, fileURI: string): Promise<boolean> {
+        const path = fileURI.slice(dirURI.length + 1);
+        return path === this.AUTOTEST_FILENAME || this.autotestService.isUploaded(dirURI, path);
+    }
+
+    private scheduleRun(dirURI: string) {
+        const timer = this.timers.get(dirURI);
+        if (timer !== undefined) {
+            window.clearTimeout(timer);
+        }
+
+        this.timers.set(dirURI, window.setTimeout(() => {
+            this.timers.delete(dirURI);
+            this.runTests(dirURI);
+        }, this.DEBOUNCE_MS));
+    }
+
+    private async runTests(dirURI: string) {
+        if (this.autotestService.isBeingTested(dirURI) || this.autotestService.isScheduled(dirURI)) {
+            if (!this.backgroundRuns.has(dirURI)) {
+                // Never interrupt a run the student started
+                return;
+            }
+            // The files changed since this run was submitted
+            await this.autotestService.cancelTests(dirURI, false);
+        }
+
+        if (!this.passCounts.has(dirURI)) {
+            const { passed } = await this.autotestService.getTestPassResults(dirURI);
+            this.passCounts.set(dirURI, passed);
+        }
+
+        this.backgroundRuns.add(dirURI);
+        const runInfo = await this.autotestService.runTests(dirURI, false);
+        if (!runInfo.success) {
+            this.backgroundRuns.delete(dirURI);
+            if (runInfo.status !== AutotestRunStatus.RUNNING && runInfo.status !== AutotestRunStatus.CANCELED) {
+                console.log(`Could not test ${dirURI} on save: ${AutotestRunStatus[runInfo.status]}`);
+            }
+        }
+    }
+
+    private async handleTestsFinished(event: AutotestEvent) {
+        const dirURI = event.program.uri;
+        const isBackgroundRun = this.backgroundRuns.delete(dirURI);
+        if (!isBackgroundRun && !this.passCounts.has(dirURI)) {
+            return;
+        }
+
+        // Runs started from the widget update the count too, so only changes since the last run are reported
+        const { passed, total } = await this.autotestService.getTestPassResults(dirURI);
+        const previous = this.passCounts.get(dirURI);
+        this.passCounts.set(dirURI, passed);
+
+        if (!isBackgroundRun || previous === undefined || previous === passed) {
+            return;
+        }
+
+        const name = dirURI.slice(dirURI.lastIndexOf('/') + 1);
+        const change = previous < 0 ? '' : ` (was ${previous}/${total})`;
+        if (passed === total) {
+            this.messageService.info(`${name}: all ${total} tests pass${change}`);
+        } else {
+            this.messageService.warn(`${name}: ${passed}/${total} tests pass${change}`);
+        }
+    }
+
+}
@@ -0,0 +1,93 @@
+import { interfaces } from 'inversify';
+import {
+    createPreferenceProxy,
+    PreferenceContribution,
+    PreferenceProxy,
+    PreferenceSchema,
+    PreferenceService
+} from '@theia/core/lib/browser/preferences';
+
+export const autotestPreferenceSchema: PreferenceSchema = {
+    type: 'object',
+    properties: {
+        'autotest.backend': {
+            type: 'string',
+            enum: ['remote', 'local'],
+            default: 'remote',
+            description: 'Where autotests are executed. `remote` submits programs to the autotester server queue, `local` compiles and runs them in the IDE backend.'
+        },
+        'autotest.resultTransport': {
+            type: 'string',
+            enum: ['poll', 'sse'],
+            default: 'poll',
+            description: 'How test progress is received. `sse` streams results with server-sent events when the autotester supports it and falls back to polling otherwise.'
+        },
+        'autotest.maxWaitMinutes': {
+            type: 'number',
+            minimum: 1,
+            default: 30,
+            description: 'How long to wait for the results of a submitted program before giving up.'
+        },
+        'autotest.testOnSave': {
+            type: 'boolean',
+            default: false,
+            description: 'Run the autotests of an assignment in the background whenever one of its files is saved.'
+        },
+        'autotest.maxConcurrentRuns': {
+            type: 'number',
+            minimum: 1,
+            default: 2,
+            description: 'How many assignment directories can be tested at the same time. Further runs wait in the test queue.'
+        },
+        'autotest.upload.include': {
+            type: 'array',
+            items: { type: 'string' },
+            default: ['**'],
+            description: 'Glob patterns of the files uploaded for testing, relative to the assignment directory. The `upload.include` of an autotest file replaces them.'
+        },
+        'autotest.upload.exclude': {
+            type: 'array',
+            items: { type: 'string' },
+            default: ['**/*.o', '**/*.obj', '**/*.exe', '**/*.out', '**/core', '**/core.*', '**/vgcore.*', '**/.*/**', '**/build/**', '**/cmake-build-*/**'],
+            description: 'Glob patterns of files never uploaded for testing. The `upload.exclude` of an autotest file is added to them.'
+        },
+        'autotest.upload.skipExecutables': {
+            type: 'boolean',
+            default: true,
+            description: 'Do not upload compiled programs and core dumps, detected by their content.'
+        },
+        'autotest.upload.maxSizeKB': {
+            type: 'number',
+            minimum: 1,
+            default: 2048,
+            description: 'Maximum total size of the files uploaded for testing, in kilobytes.'
+        }
+    }
+};
+
+export interface AutotestConfiguration {
+    'autotest.backend': 'remote' | 'local';
+    'autotest.resultTransport': 'poll' | 'sse';
+    'autotest.maxWaitMinutes': number;
+    'autotest.testOnSave': boolean;
+    'autotest.maxConcurrentRuns': number;
+    'autotest.upload.include': string[];
+    'autotest.upload.exclude': string[];
+    'autotest.upload.skipExecutables': boolean;
+    'autotest.upload.maxSizeKB': number;
+}
+
+export const AutotestPreferences = Symbol('AutotestPreferences');
+export type AutotestPreferences = PreferenceProxy<AutotestConfiguration>;
+
+export function createAutotestPreferences(preferences: PreferenceService): AutotestPreferences {
+    return createPreferenceProxy(preferences, autotestPreferenceSchema);
+}
+
+export function bindAutotestPreferences(bind: interfaces.Bind): void {
+    bind(AutotestPreferences).toDynamicValue(ctx => {
+        const preferences = ctx.container.get<PreferenceService>(PreferenceService);
+        return createAutotestPreferences(preferences);
+    }).inSingletonScope();
+    bind(PreferenceContribution).toConstantValue({ schema: autotestPreferenceSchema });
+}
@@ -0,0 +1,210 @@
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    enum?: any[];
+    minimum?: number;
+    minItems?: number;
+}
+
+export interface AutotestValidationError {
+    // Location of the invalid value, e.g. `tests[2].execute.expect`
+    path: string;
+    message: string;
+}
+
+export interface JsonParseError {
+    message: string;
+    // One based, as shown in editors
+    line: number;
+    column: number;
+}
+
+export const PATCH_POSITIONS = ['main', 'above_main', 'top_of_file', 'bottom_of_file'];
+export const OUTPUT_MATCHING = ['whitespace', 'exact', 'substring', 'regex'];
+
+export const autotestSchema: JsonSchema = {
+    type: 'object',
+    required: ['tests'],
+    properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        languages: { type: 'array', items: { type: 'string' } },
+        tools: {
+            type: 'object',
+            properties: {
+                compile: {
+                    type: 'object',
+                    properties: {
+                        require: { type: 'string' },
+                        features: { type: 'array', items: { type: 'string' } },
+                    }
+                },
+                execute: {
+                    type: 'object',
+                    properties: {
+                        environment: {
+                            type: 'object',
+                            properties: {
+                                timeout: { type: 'number', minimum: 1 },
+                            }
+                        }
+                    }
+                },
+            }
+        },
+        upload: {
+            type: 'object',
+            properties: {
+                include: { type: 'array', items: { type: 'string' } },
+                exclude: { type: 'array', items: { type: 'string' } },
+            }
+        },
+        tests: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    options: { type: 'array', items: { type: 'string' } },
+                    patch: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['position', 'code'],
+                            properties: {
+                                position: { type: 'string', enum: PATCH_POSITIONS },
+                                code: { type: 'string' },
+                            }
+                        }
+                    },
+                    execute: {
+                        type: 'object',
+                        properties: {
+                            input: { type: 'string' },
+                            expect: { type: 'array', items: { type: 'string' } },
+                            matching: { type: 'string', enum: OUTPUT_MATCHING },
+                            environment: {
+                                type: 'object',
+                                properties: {
+                                    timeout: { type: 'number', minimum: 1 },
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Validates an autotest task against `autotestSchema` and checks that test ids are unique.
+ */
+export function validateAutotest(autotest: any): AutotestValidationError[] {
+    const errors = validateValue(autotest, autotestSchema, '');
+
+    const tests: any[] = Array.isArray(autotest?.tests) ? autotest.tests : [];
+    const seen = new Set<number>();
+    tests.forEach((test, index) => {
+        if (test && typeof test.id === 'number') {
+            if (seen.has(test.id)) {
+                errors.push({ path: `tests[${index}].id`, message: `Duplicate test id ${test.id}` });
+            }
+            seen.add(test.id);
+        }
+    });
+
+    return errors;
+}
+
+function validateValue(value: any, schema: JsonSchema, path: string): AutotestValidationError[] {
+    const location = path || 'task';
+
+    if (schema.type !== undefined && !hasType(value, schema.type)) {
+        return [{ path: location, message: `Expected ${schema.type}, got ${describeType(value)}` }];
+    }
+
+    const errors: AutotestValidationError[] = [];
+
+    if (schema.enum !== undefined && !schema.enum.includes(value)) {
+        errors.push({ path: location, message: `Must be one of: ${schema.enum.join(', ')}` });
+    }
+
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+        errors.push({ path: location, message: `Must be at least ${schema.minimum}` });
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push({ path: location, message: `Must contain at least ${schema.minItems} item(s)` });
+        }
+        const itemSchema = schema.items;
+        if (itemSchema !== undefined) {
+            value.forEach((item, index) => errors.push(...validateValue(item, itemSchema, `${path}[${index}]`)));
+        }
+    } else if (value !== null && typeof value === 'object') {
+        (schema.required ?? [])
+            .filter(property => value[property] === undefined)
+            .forEach(property => errors.push({ path: joinPath(path, property), message: 'Required' }));
+
+        Object.entries(schema.properties ?? {})
+            .filter(([property]) => value[property] !== undefined)
+            .forEach(([property, propertySchema]) =>
+                errors.push(...validateValue(value[property], propertySchema, joinPath(path, property)))
+            );
+    }
+
+    return errors;
+}
+
+function hasType(value: any, type: string): boolean {
+    switch (type) {
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number' && Math.floor(value) === value;
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function joinPath(path: string, property: string): string {
+    return path ? `${path}.${property}` : property;
+}
+
+/**
+ * Parses autotest JSON, reporting where the content is malformed if it is not valid JSON.
+ */
+export function parseAutotestContent(content: string): { autotest: any } | { error: JsonParseError } {
+    try {
+        return { autotest: JSON.parse(content) };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const positionMatch = /position (\d+)/.exec(message);
+        const position = positionMatch !== null ? Number(positionMatch[1]) : content.length;
+        const before = content.slice(0, position).split('\n');
+
+        return {
+            error: {
+                message,
+                line: before.length,
+                column: before[before.length - 1].length + 1,
+            }
+        };
+    }
+}
@@ -1,6 +1,6 @@
-import { injectable, inject } from "inversify";
+import { injectable, inject, postConstruct } from "inversify";
 import { Emitter } from '@theia/core/lib/common/event';
-import {AssignmentDirectory, Autotester, BinaryAssignmentFile} from './autotester';
+import {AssignmentDirectory, Autotester, AutotesterBackendKind, BinaryAssignmentFile} from './autotester';
 import { FileStatWithMetadata } from '@theia/filesystem/lib/common/files';
 import { FileService } from '@theia/filesystem/lib/browser/file-service';
 import { WorkspaceService } from '@theia/workspace/lib/browser';
@@ -8,6 +8,13 @@ import URI from '@theia/core/lib/common/uri';
 // @ts-ignore
 import { SessionManager } from 'top-bar/lib/browser/session-manager';
 import {BinaryBufferReadableStream} from "@theia/core/lib/common/buffer";
+import { StorageService } from '@theia/core/lib/browser/storage-service';
+import { AutotestHistoryService } from './autotest-history';
+import { ResultSubscription, ResultSubscriptionService } from './result-subscription';
+import { AssignmentFileReadError, AutotestRunError } from './autotest-errors';
+import { parseAutotestContent } from './autotest-schema';
+import { AutotestPreferences } from './autotest-preferences';
+import { isExecutableContent, UploadFilter } from './upload-filter';
 
 interface AutotesterState {
     programs: Record<string, Program | undefined>
@@ -26,9 +33,33 @@ export interface Program {
     taskID: number | undefined;
     totalTests: number;
     isUserInvoked: boolean,
+    startedAt?: number;
+    // Set when only a subset of the tests is run, their results are merged into the previous ones
+    testIDs?: number[];
+    // Autotester backend the program was submitted to, unset for programs read from the results file
+    backend?: AutotesterBackendKind;
     result?: Result;
 }
 
+export interface AutotestDefinition {
+    id: number;
+    label: string;
+    silent: boolean;
+}
+
+// Programs still being tested, persisted so their results can be awaited again after a reload
+interface InFlightProgram {
+    uri: string;
+    id: number;
+    taskID: number | undefined;
+    totalTests: number;
+    isUserInvoked: boolean;
+    startedAt: number;
+    testIDs?: number[];
+    // Runs of the local backend are lost with the page, entries without it were started remotely
+    backend?: AutotesterBackendKind;
+}
+
 // TODO: Move Program[status | totalTests] to Result
 //       Move Result[isWaiting | isBeingTested | inQueue | completedTests] to TestingProgress
 export interface Result {
@@ -39,12 +70,40 @@ export interface Result {
     testResults: TestResult[];
 }
 
+export interface UploadFile {
+    uri: string;
+    // Relative to the assignment directory
+    path: string;
+    size: number;
+}
+
+export interface UploadPreview {
+    included: UploadFile[];
+    excluded: { file: UploadFile, reason: string }[];
+    totalSize: number;
+    maxSize: number;
+}
+
 export interface TestResult {
     id: number;
     success: boolean;
     status: TestResultStatus;
 }
 
+export interface TestDetails {
+    id: number;
+    success: boolean;
+    status: TestResultStatus;
+    code: string;
+    input: string;
+    expected: string[];
+    output: string;
+    compileOutput: string;
+    runtimeOutput: string;
+    exitCode?: number;
+    duration?: number;
+}
+
 export enum ProgramStatus {
     PROGRAM_AWAITING_TESTS = "Waiting in queue...",
     PROGRAM_PLAGIARIZED = "Program is plagiarized!",
@@ -74,6 +133,8 @@ export enum TestResultStatus {
 export interface AutotestRunInfo {
     success: boolean;
     status: AutotestRunStatus
+    // Details of the failure for ERROR_OPENING_DIRECTORY, AUTOTEST_FILE_CORRUPT and ERROR_REACHING_SERVER
+    error?: AutotestRunError;
 }
 
 export enum AutotestRunStatus {
@@ -82,16 +143,53 @@ export enum AutotestRunStatus {
     ERROR_OPENING_DIRECTORY = 3,
     AUTOTEST_FILE_CORRUPT = 4,
     ERROR_REACHING_SERVER = 5,
+    UPLOAD_TOO_LARGE = 6,
+    // Accepted, but waiting for other runs to finish before it is submitted
+    QUEUED = 7,
+    // Canceled while the program was being submitted
+    CANCELED = 8,
 }
 
 export enum AutotestCancelStatus {
     CANCELED = 1,
     NOT_USER_INVOKED = 2,
     NO_PROGRAM = 3,
+    // Stopped locally, but the autotester could not remove the program from its queue
+    CANCELED_NOT_DEQUEUED = 4,
 }
 
 export interface AutotestEvent {
     program: Program,
+    // Results of a run that does not persist them, which are not written to the directory
+    result?: any,
+}
+
+export interface RunFailedEvent {
+    uri: string;
+    runInfo: AutotestRunInfo;
+}
+
+export interface RunCanceledEvent {
+    uri: string;
+}
+
+export interface RunQueueEntry {
+    uri: string;
+    state: 'queued' | 'running';
+    isUserInvoked: boolean;
+    // One based position of a queued run
+    position?: number;
+}
+
+// Run waiting for a free slot, or being submitted and tested
+interface ScheduledRun {
+    uri: string;
+    autotest: any;
+    isUserInvoked: boolean;
+    testIDs: number[] | undefined;
+    // False for trial runs, e.g. of an unsaved autotest, whose results must not replace the directory's
+    persistResults: boolean;
+    abortController: AbortController;
 }
 
 // TODO: Find a way to avoid this -_-
@@ -125,11 +223,14 @@ const integerToTestResultStatusMapping: Record<number, TestResultStatus> = {
 @injectable()
 export class AutotestService {
 
-    private readonly POLL_TIMEOUT_MS = 500;
     private readonly AUTOTEST_RESULTS_FILENAME = '.at_result';
     private readonly AUTOTEST_FILENAME = '.autotest2';
+    private readonly IN_FLIGHT_PROGRAMS_STORAGE_KEY = 'autotest-view:in-flight-programs';
 
     private state: AutotesterState = { programs: {} };
+    private subscriptions: Record<string, ResultSubscription | undefined> = {};
+    private queuedRuns: ScheduledRun[] = [];
+    private activeRuns = new Map<string, ScheduledRun>();
 
     private readonly onTestsFinishedEmitter = new Emitter<AutotestEvent>();
     readonly onTestsFinished = this.onTestsFinishedEmitter.event;
@@ -143,19 +244,94 @@ export class AutotestService {
     private readonly onProgramRemovedEmitter = new Emitter<AutotestEvent>();
     readonly onProgramRemoved = this.onProgramRemovedEmitter.event;
 
+    private readonly onTestsFailedEmitter = new Emitter<AutotestEvent>();
+    readonly onTestsFailed = this.onTestsFailedEmitter.event;
+
+    // Fired when a queued run could not be submitted once its turn came
+    private readonly onRunFailedEmitter = new Emitter<RunFailedEvent>();
+    readonly onRunFailed = this.onRunFailedEmitter.event;
+
+    // Fired when a run is canceled before it has a program, while queued or being submitted
+    private readonly onRunCanceledEmitter = new Emitter<RunCanceledEvent>();
+    readonly onRunCanceled = this.onRunCanceledEmitter.event;
+
+    private readonly onRunQueueChangedEmitter = new Emitter<RunQueueEntry[]>();
+    readonly onRunQueueChanged = this.onRunQueueChangedEmitter.event;
+
     constructor(
         @inject(Autotester) private readonly autotester: Autotester,
         @inject(FileService) private readonly fileService: FileService,
         @inject(WorkspaceService) private readonly workspaceService: WorkspaceService,
         @inject(SessionManager) private readonly sessionManager: SessionManager,
+        @inject(AutotestHistoryService) private readonly historyService: AutotestHistoryService,
+        @inject(ResultSubscriptionService) private readonly resultSubscriptionService: ResultSubscriptionService,
+        @inject(StorageService) private readonly storageService: StorageService,
+        @inject(AutotestPreferences) private readonly preferences: AutotestPreferences,
     ) {
         this.onTestsCanceled.maxListeners = 0;
         this.onTestsFinished.maxListeners = 0;
         this.onTestsUpdate.maxListeners = 0;
+        this.onTestsFailed.maxListeners = 0;
+        this.onRunQueueChanged.maxListeners = 0;
     }
 
-    public async runTests(dirURI: string, isUserInvoked: boolean): Promise<AutotestRunInfo> {
-        if (this.isBeingTested(dirURI)) {
+    @postConstruct()
+    protected async init(): Promise<void> {
+        const inFlightPrograms = await this.storageService.getData<InFlightProgram[]>(this.IN_FLIGHT_PROGRAMS_STORAGE_KEY, []);
+
+        inFlightPrograms.forEach(inFlight => {
+            if (this.getProgram(inFlight.uri) !== undefined) {
+                return;
+            }
+            if (inFlight.backend === 'local') {
+                console.log(`Not resuming the local autotest run for ${inFlight.uri}, it ended with the previous session`);
+                return;
+            }
+
+            const program: Program = {
+                id: inFlight.id,
+                uri: inFlight.uri,
+                status: ProgramStatus.PROGRAM_CURRENTLY_TESTING,
+                taskID: inFlight.taskID,
+                totalTests: inFlight.totalTests,
+                isUserInvoked: inFlight.isUserInvoked,
+                startedAt: inFlight.startedAt,
+                testIDs: inFlight.testIDs,
+                backend: inFlight.backend ?? 'remote',
+                result: {
+                    completedTests: 0,
+                    isBeingTested: true,
+                    isWaiting: false,
+                    inQueue: 0,
+                    testResults: [],
+                },
+            };
+
+            console.log(`Resuming autotest run for ${program.uri}...`);
+            this.state.programs[program.uri] = program;
+            this.activeRuns.set(program.uri, {
+                uri: program.uri,
+                autotest: undefined,
+                isUserInvoked: program.isUserInvoked,
+                testIDs: program.testIDs,
+                persistResults: true,
+                abortController: new AbortController(),
+            });
+            this.onTestsUpdateEmitter.fire({ program });
+            this.getResults(program.uri, inFlight.startedAt);
+        });
+
+        // Drops the entries that were not resumed
+        this.persistInFlightPrograms();
+        this.fireRunQueueChanged();
+    }
+
+    /**
+     * Runs the tests defined in the directory's autotest file.
+     * If `testIDs` are given, a task containing only those tests is submitted.
+     */
+    public async runTests(dirURI: string, isUserInvoked: boolean, testIDs?: number[]): Promise<AutotestRunInfo> {
+        if (this.isBeingTested(dirURI) || this.isScheduled(dirURI)) {
             return {
                 success: false,
                 status: AutotestRunStatus.RUNNING
@@ -170,26 +346,198 @@ export class AutotestService {
             };
         }
 
-        let autotest;
+        const parsed = parseAutotestContent(autotestContent);
+        if ('error' in parsed) {
+            console.log(`Corrupt '${this.AUTOTEST_FILENAME}' file in ${dirURI}: ${parsed.error.message}`);
+            return {
+                success: false,
+                status: AutotestRunStatus.AUTOTEST_FILE_CORRUPT,
+                error: {
+                    kind: 'autotest-file-corrupt',
+                    file: `${dirURI}/${this.AUTOTEST_FILENAME}`,
+                    ...parsed.error,
+                }
+            };
+        }
+
+        let autotest = parsed.autotest;
+
+        if (testIDs !== undefined) {
+            const selectedIDs = testIDs;
+            autotest = {
+                ...autotest,
+                tests: (autotest.tests ?? []).filter((test: any) => selectedIDs.includes(Number(test.id))),
+            };
+
+            if (autotest.tests.length === 0) {
+                return {
+                    success: false,
+                    status: AutotestRunStatus.NO_AUTOTESTS_DEFINED
+                };
+            }
+        }
+
+        return this.scheduleRun({ uri: dirURI, autotest, isUserInvoked, testIDs, persistResults: true, abortController: new AbortController() });
+    }
+
+    /**
+     * Tests the program in `dirURI` against the given task instead of the directory's autotest file.
+     * Unless `persistResults` is true, the results are only passed to `onTestsFinished` and are not written,
+     * archived or resumed after a reload.
+     */
+    public async runTask(dirURI: string, autotest: any, isUserInvoked: boolean, persistResults: boolean = true): Promise<AutotestRunInfo> {
+        if (this.isBeingTested(dirURI) || this.isScheduled(dirURI)) {
+            return {
+                success: false,
+                status: AutotestRunStatus.RUNNING
+            };
+        }
+
+        return this.scheduleRun({ uri: dirURI, autotest, isUserInvoked, testIDs: undefined, persistResults, abortController: new AbortController() });
+    }
+
+    /**
+     * Returns true if a run of the directory is waiting in the queue or has been started.
+     */
+    public isScheduled(dirURI: string): boolean {
+        return this.activeRuns.has(dirURI) || this.isQueued(dirURI);
+    }
+
+    public isQueued(dirURI: string): boolean {
+        return this.queuedRuns.some(run => run.uri === dirURI);
+    }
+
+    public getRunQueue(): RunQueueEntry[] {
+        const running: RunQueueEntry[] = Array.from(this.activeRuns.values()).map(run => ({
+            uri: run.uri,
+            state: 'running',
+            isUserInvoked: run.isUserInvoked,
+        }));
+        const queued: RunQueueEntry[] = this.queuedRuns.map((run, index) => ({
+            uri: run.uri,
+            state: 'queued',
+            isUserInvoked: run.isUserInvoked,
+            position: index + 1,
+        }));
+        return [...running, ...queued];
+    }
+
+    private async scheduleRun(run: ScheduledRun): Promise<AutotestRunInfo> {
+        if (this.activeRuns.size < this.preferences['autotest.maxConcurrentRuns']) {
+            return this.startRun(run);
+        }
+
+        this.queuedRuns.push(run);
+        this.fireRunQueueChanged();
+
+        return {
+            success: true,
+            status: AutotestRunStatus.QUEUED
+        };
+    }
+
+    private async startRun(run: ScheduledRun): Promise<AutotestRunInfo> {
+        this.activeRuns.set(run.uri, run);
+        this.fireRunQueueChanged();
+
+        let runInfo: AutotestRunInfo | undefined;
+        try {
+            runInfo = await this.submitTask(run.uri, run.autotest, run.isUserInvoked, run.testIDs, run.abortController.signal);
+        } catch (err) {
+            console.log(`Could not submit the tests of ${run.uri}: ${err}`);
+            runInfo = {
+                success: false,
+                status: AutotestRunStatus.ERROR_REACHING_SERVER,
+                error: AutotestRunError.fromException(err)
+            };
+        } finally {
+            if (!runInfo?.success) {
+                this.releaseRun(run);
+            }
+        }
+
+        return runInfo;
+    }
+
+    /**
+     * Frees the slot of a finished, failed or canceled run and starts the next queued runs.
+     * Does nothing if the run is no longer active, e.g. it was canceled and a new run of the directory started.
+     */
+    private releaseRun(run: ScheduledRun | undefined) {
+        if (run === undefined || this.activeRuns.get(run.uri) !== run) {
+            return;
+        }
+        this.activeRuns.delete(run.uri);
+
+        while (this.queuedRuns.length > 0 && this.activeRuns.size < this.preferences['autotest.maxConcurrentRuns']) {
+            const [run] = this.queuedRuns.splice(0, 1);
+            this.startRun(run).then(runInfo => {
+                if (!runInfo.success && runInfo.status !== AutotestRunStatus.CANCELED) {
+                    this.onRunFailedEmitter.fire({ uri: run.uri, runInfo });
+                }
+            }).catch(err => console.log(`Could not start the queued tests of ${run.uri}: ${err}`));
+        }
+
+        this.fireRunQueueChanged();
+    }
+
+    private fireRunQueueChanged() {
+        this.onRunQueueChangedEmitter.fire(this.getRunQueue());
+    }
 
+    private async submitTask(
+        dirURI: string,
+        autotest: any,
+        isUserInvoked: boolean,
+        testIDs: number[] | undefined,
+        signal: AbortSignal,
+    ): Promise<AutotestRunInfo> {
+        let upload;
         try {
-            autotest = JSON.parse(autotestContent);
+            upload = await this.selectUploadFiles(dirURI, autotest);
         } catch (err) {
-            console.log(`Corrupt '${this.AUTOTEST_FILENAME}' file in ${dirURI}`);
+            console.log(err);
             return {
                 success: false,
-                status: AutotestRunStatus.AUTOTEST_FILE_CORRUPT
+                status: AutotestRunStatus.ERROR_OPENING_DIRECTORY,
+                error: AutotestRunError.fromException(err)
             };
         }
 
+        if (upload.totalSize > upload.maxSize) {
+            return {
+                success: false,
+                status: AutotestRunStatus.UPLOAD_TOO_LARGE,
+                error: {
+                    kind: 'upload-too-large',
+                    size: upload.totalSize,
+                    maxSize: upload.maxSize,
+                    largestFiles: upload.included
+                        .slice()
+                        .sort((a, b) => b.size - a.size)
+                        .slice(0, 3)
+                        .map(file => file.path),
+                }
+            };
+        }
+
+        if (signal.aborted) {
+            return this.canceledRunInfo();
+        }
+
+        // The whole run stays on one backend, also if the preference changes meanwhile
+        const backend = this.autotester.defaultBackend;
+
         let taskID;
         try {
-            taskID = await this.autotester.setTask(autotest);
+            taskID = await this.autotester.setTask(backend, autotest);
             console.log(`Task ID: ${taskID}`);
         } catch (err) {
+            console.log(`Could not set task: ${err}`);
             return {
                 success: false,
-                status: AutotestRunStatus.ERROR_REACHING_SERVER
+                status: AutotestRunStatus.ERROR_REACHING_SERVER,
+                error: AutotestRunError.fromException(err)
             };
         }
 
@@ -198,33 +546,73 @@ export class AutotestService {
         const programName = await this.resolveProgramName(dirURI);
         const nonSilentAutotests = autotest.tests.filter((test: any) => !(test.options && test.options.includes('silent')));
 
-        if (program) {
-            if (taskID !== program.taskID) {
-                program = await this.createProgram(program.id, taskID, programName, nonSilentAutotests.length, dirURI, isUserInvoked);
+        try {
+            // Program ids of one backend mean nothing to the other
+            if (program && program.backend === backend) {
+                if (taskID !== program.taskID) {
+                    program = await this.createProgram(backend, program.id, taskID, programName, nonSilentAutotests.length, dirURI, isUserInvoked);
+                }
+            } else {
+                program = await this.createProgram(backend, undefined, taskID, programName, nonSilentAutotests.length, dirURI, isUserInvoked);
             }
-        } else {
-            program = await this.createProgram(undefined, taskID, programName, nonSilentAutotests.length, dirURI, isUserInvoked);
+        } catch (err) {
+            console.log(`Could not set program: ${err}`);
+            return {
+                success: false,
+                status: AutotestRunStatus.ERROR_REACHING_SERVER,
+                error: AutotestRunError.fromException(err)
+            };
+        }
+
+        if (signal.aborted) {
+            return this.canceledRunInfo();
         }
 
         this.state.programs[dirURI] = program;
         program.isUserInvoked = isUserInvoked;
+        program.totalTests = nonSilentAutotests.length;
+        program.testIDs = testIDs;
 
         console.log(`Program ID: ${program.id}`);
 
+        let dir;
         try {
-            const dir = await this.loadAssignmentDirectory(dirURI);
+            dir = await this.loadAssignmentDirectory(dirURI, new Set(upload.included.map(file => file.path)));
             // console.log(`Directories are: ${JSON.stringify(dir)}`);
-            await this.autotester.setProgramFiles(program.id, dir);
+        } catch (err) {
+            console.log(err);
+            return {
+                success: false,
+                status: AutotestRunStatus.ERROR_OPENING_DIRECTORY,
+                error: AutotestRunError.fromException(err)
+            };
+        }
+
+        if (signal.aborted) {
+            return this.canceledRunInfo();
+        }
+
+        try {
+            await this.autotester.setProgramFiles(backend, program.id, dir);
             console.log("Source files are set...");
         } catch (err) {
             console.log(err);
             return {
                 success: false,
-                status: AutotestRunStatus.ERROR_OPENING_DIRECTORY
+                status: AutotestRunStatus.ERROR_REACHING_SERVER,
+                error: AutotestRunError.fromException(err)
             };
         }
 
-        this.getResults(dirURI);
+        if (signal.aborted) {
+            // The program was queued by the upload, take it out again
+            this.autotester.cancelProgram(backend, program.id)
+                .catch(err => console.log(`Could not cancel program ${program?.id}: ${err}`));
+            return this.canceledRunInfo();
+        }
+
+        program.startedAt = Date.now();
+        this.getResults(dirURI, program.startedAt);
 
         return {
             success: true,
@@ -232,27 +620,151 @@ export class AutotestService {
         };
     }
 
-    private async loadAssignmentDirectory(dirURI: string, baseURI: string = dirURI): Promise<AssignmentDirectory> {
-        const dir = await this.fileService.resolve(new URI(dirURI));
+    private canceledRunInfo(): AutotestRunInfo {
+        return {
+            success: false,
+            status: AutotestRunStatus.CANCELED
+        };
+    }
+
+    /**
+     * Lists the files of the assignment that would be uploaded for testing with the directory's autotest file.
+     */
+    public async getUploadPreview(dirURI: string): Promise<UploadPreview> {
+        return this.selectUploadFiles(dirURI, await this.loadUploadAutotest(dirURI));
+    }
+
+    /**
+     * Whether the file, given by its path relative to the assignment directory, would be uploaded for testing.
+     */
+    public async isUploaded(dirURI: string, path: string): Promise<boolean> {
+        // Hidden files are not listed for the upload at all
+        if (path.slice(path.lastIndexOf('/') + 1).startsWith('.')) {
+            return false;
+        }
+
+        const filter = this.getUploadFilter(await this.loadUploadAutotest(dirURI));
+        return await this.getUploadExclusionReason(filter, path, `${dirURI}/${path}`) === undefined;
+    }
+
+    private async loadUploadAutotest(dirURI: string): Promise<any> {
+        const autotestContent = await this.loadAutotestFile(dirURI);
+        const parsed = autotestContent !== undefined ? parseAutotestContent(autotestContent) : undefined;
+        return parsed !== undefined && 'autotest' in parsed ? parsed.autotest : undefined;
+    }
+
+    private getUploadFilter(autotest: any): UploadFilter {
+        return UploadFilter.forTask(autotest, {
+            include: this.preferences['autotest.upload.include'],
+            exclude: this.preferences['autotest.upload.exclude'],
+        });
+    }
+
+    private async getUploadExclusionReason(filter: UploadFilter, path: string, uri: string): Promise<string | undefined> {
+        const pattern = UploadFilter.getExcludingPattern(filter, path);
+        if (pattern !== undefined) {
+            return `Excluded by ${pattern}`;
+        }
+        if (this.preferences['autotest.upload.skipExecutables'] && await this.isExecutableFile(uri)) {
+            return 'Compiled program or core dump';
+        }
+        return undefined;
+    }
+
+    private async selectUploadFiles(dirURI: string, autotest: any): Promise<UploadPreview> {
+        const filter = this.getUploadFilter(autotest);
+
+        const files = await this.listAssignmentFiles(dirURI);
+        const preview: UploadPreview = {
+            included: [],
+            excluded: [],
+            totalSize: 0,
+            maxSize: this.preferences['autotest.upload.maxSizeKB'] * 1024,
+        };
+
+        for (const file of files) {
+            const reason = await this.getUploadExclusionReason(filter, file.path.replace(/^\//, ''), file.uri);
+            if (reason !== undefined) {
+                preview.excluded.push({ file, reason });
+            } else {
+                preview.included.push(file);
+                preview.totalSize += file.size;
+            }
+        }
+
+        return preview;
+    }
+
+    private async listAssignmentFiles(dirURI: string, baseURI: string = dirURI): Promise<UploadFile[]> {
+        let dir;
+        try {
+            dir = await this.fileService.resolve(new URI(dirURI), { resolveMetadata: true });
+        } catch (err) {
+            throw new AssignmentFileReadError(dirURI, err instanceof Error ? err.message : String(err));
+        }
 
         if (!dir || !dir.isDirectory) {
-            throw Error(`Could not resolve ${dirURI}`);
+            throw new AssignmentFileReadError(dirURI, 'Not a directory');
         }
 
         const filesStats = dir.children ?? [];
 
-        const assignmentFiles = filesStats
+        const files: UploadFile[] = filesStats
             .filter(file => file.isFile && file.name[0] !== '.')
+            .map(file => ({
+                uri: file.resource.toString(),
+                path: this.getRelativePath(file.resource.toString(), baseURI),
+                size: file.size,
+            }));
+
+        const subdirectoryFiles = await Promise.all(filesStats
+            .filter(file => file.isDirectory)
+            .map(file => this.listAssignmentFiles(file.resource.toString(), baseURI)));
+
+        return files.concat(...subdirectoryFiles);
+    }
+
+    private async isExecutableFile(uri: string): Promise<boolean> {
+        try {
+            const { value } = await this.fileService.readFile(new URI(uri), { length: 4 });
+            return isExecutableContent(value.buffer);
+        } catch (_) {
+            return false;
+        }
+    }
+
+    private async loadAssignmentDirectory(dirURI: string, includedPaths: Set<string>, baseURI: string = dirURI): Promise<AssignmentDirectory> {
+        let dir;
+        try {
+            dir = await this.fileService.resolve(new URI(dirURI));
+        } catch (err) {
+            throw new AssignmentFileReadError(dirURI, err instanceof Error ? err.message : String(err));
+        }
+
+        if (!dir || !dir.isDirectory) {
+            throw new AssignmentFileReadError(dirURI, 'Not a directory');
+        }
+
+        const filesStats = dir.children ?? [];
+
+        const assignmentFiles = filesStats
+            .filter(file => file.isFile)
             .map(file => ({
                 uri: file.resource,
                 name: file.name,
                 path: this.getRelativePath(file.resource.toString(), baseURI)
-            }));
+            }))
+            .filter(file => includedPaths.has(file.path));
 
         const assignmentFilesPromises = assignmentFiles.map(async file => {
-            const { value } = await this.fileService.readFileStream(file.uri);
-            const fileContentBuffer = await BinaryBufferReadableStream.toBuffer(value);
-            const byteArray = new Uint8Array(fileContentBuffer.buffer);
+            let byteArray;
+            try {
+                const { value } = await this.fileService.readFileStream(file.uri);
+                const fileContentBuffer = await BinaryBufferReadableStream.toBuffer(value);
+                byteArray = new Uint8Array(fileContentBuffer.buffer);
+            } catch (err) {
+                throw new AssignmentFileReadError(file.uri.toString(), err instanceof Error ? err.message : String(err));
+            }
 
             return {
                 ...file,
@@ -261,10 +773,11 @@ export class AutotestService {
         });
 
         const assignmentDirs = filesStats
-            .filter(file => file.isDirectory);
+            .filter(file => file.isDirectory)
+            .filter(file => Array.from(includedPaths).some(path => path.startsWith(this.getRelativePath(file.resource.toString(), baseURI) + '/')));
 
         const assignmentDirsPromises = assignmentDirs
-            .map(file => this.loadAssignmentDirectory(file.resource.toString(), baseURI));
+            .map(file => this.loadAssignmentDirectory(file.resource.toString(), includedPaths, baseURI));
 
         const files: BinaryAssignmentFile[] = await Promise.all(assignmentFilesPromises);
         const subdirectories: AssignmentDirectory[] = await Promise.all(assignmentDirsPromises);
@@ -282,10 +795,19 @@ export class AutotestService {
         return `${userInfo.username}/${path}`;
     }
 
-    private async createProgram(programID: number | undefined, taskID: number, programName: string, totalTests: number, uri: string, isUserInvoked: boolean): Promise<Program> {
-        const id = await this.autotester.setProgram(programID, taskID, programName);
+    private async createProgram(
+        backend: AutotesterBackendKind,
+        programID: number | undefined,
+        taskID: number,
+        programName: string,
+        totalTests: number,
+        uri: string,
+        isUserInvoked: boolean,
+    ): Promise<Program> {
+        const id = await this.autotester.setProgram(backend, programID, taskID, programName);
         return {
             id,
+            backend,
             status: ProgramStatus.PROGRAM_AWAITING_TESTS,
             totalTests,
             uri,
@@ -305,81 +827,247 @@ export class AutotestService {
         }
     }
 
-    private async getResults(dirURI: string) {
-        console.log("Getting resutls...");
+    /**
+     * Waits for the results of the directory's program and releases its run, also if handling the results fails.
+     */
+    private async getResults(dirURI: string, startedAt: number = Date.now()) {
+        const run = this.activeRuns.get(dirURI);
+        try {
+            await this.waitForResults(dirURI, startedAt, run);
+        } catch (err) {
+            console.log(`Could not handle autotest results for ${dirURI}: ${err}`);
+            if (run !== undefined && this.activeRuns.get(dirURI) !== run) {
+                return;
+            }
+            const program = this.getProgram(dirURI);
+            if (program !== undefined) {
+                program.status = ProgramStatus.PROGRAM_REJECTED;
+                this.clearProgramResults(dirURI);
+                this.onTestsFailedEmitter.fire({ program });
+            }
+            this.releaseRun(run);
+        }
+    }
 
+    private async waitForResults(dirURI: string, startedAt: number, run: ScheduledRun | undefined) {
         const program = this.getProgram(dirURI);
 
         if (!program) {
             console.log('No program found...');
+            this.releaseRun(run);
+            return;
+        }
+
+        this.subscriptions[dirURI]?.dispose();
+
+        const subscription = this.resultSubscriptionService.subscribe(program.backend ?? 'remote', program.id, {
+            startedAt,
+            signal: run?.abortController.signal,
+            isFinished: responseResult => !this.isInProgress(this.integerToProgramStatus(responseResult.status)),
+            onUpdate: responseResult => {
+                this.updateProgramResult(program, responseResult);
+                this.onTestsUpdateEmitter.fire({ program });
+            },
+        });
+        this.subscriptions[dirURI] = subscription;
+        this.persistInFlightPrograms();
+
+        const outcome = await subscription.outcome;
+
+        if (this.subscriptions[dirURI] === subscription) {
+            this.subscriptions[dirURI] = undefined;
+            this.persistInFlightPrograms();
+        }
+
+        if (outcome.kind === 'disposed') {
+            return;
+        }
+
+        if (outcome.kind !== 'finished') {
+            console.log(`Stopped waiting for results of ${dirURI}: ${outcome.kind}`);
+            program.status = ProgramStatus.PROGRAM_REJECTED;
+            this.clearProgramResults(dirURI);
+            this.onTestsFailedEmitter.fire({ program });
+            this.releaseRun(run);
+            return;
+        }
+
+        this.updateProgramResult(program, outcome.result);
+
+        if (run?.persistResults === false) {
+            this.clearProgramResults(dirURI);
+            this.onTestsFinishedEmitter.fire({ program, result: outcome.result });
+            this.releaseRun(run);
             return;
         }
 
-        const responseResult = await this.autotester.getResults(program.id);
+        // TODO: Populate program.taskResults
+
+        const responseResult = program.testIDs !== undefined
+            ? await this.mergeWithPreviousResults(dirURI, outcome.result)
+            : outcome.result;
+
+        await this.writeAutotestResultsFile(dirURI, JSON.stringify(responseResult, null, 4));
+        await this.archiveResults(dirURI, program, responseResult);
+        this.clearProgramResults(dirURI);
+
+        this.onTestsFinishedEmitter.fire({ program });
+        this.releaseRun(run);
+    }
+
+    private persistInFlightPrograms() {
+        const inFlightPrograms: InFlightProgram[] = [];
+
+        Object.keys(this.subscriptions).forEach(uri => {
+            const program = this.getProgram(uri);
+            if (this.subscriptions[uri] === undefined || program === undefined) {
+                return;
+            }
+            // Nobody waits for the results of trial runs after a reload
+            if (this.activeRuns.get(uri)?.persistResults === false) {
+                return;
+            }
+
+            inFlightPrograms.push({
+                uri,
+                id: program.id,
+                taskID: program.taskID,
+                totalTests: program.totalTests,
+                isUserInvoked: program.isUserInvoked,
+                startedAt: program.startedAt ?? Date.now(),
+                testIDs: program.testIDs,
+                backend: program.backend,
+            });
+        });
+
+        this.storageService.setData(this.IN_FLIGHT_PROGRAMS_STORAGE_KEY, inFlightPrograms);
+    }
+
+    private updateProgramResult(program: Program, responseResult: any) {
         program.status = this.integerToProgramStatus(responseResult.status);
 
         const testResultsObjects = responseResult.test_results ?? [];
 
-        const result: Result = {
+        program.result = {
             inQueue: responseResult.queue_items ?? 0,
             isWaiting: program.status === ProgramStatus.PROGRAM_AWAITING_TESTS,
             isBeingTested: program.status === ProgramStatus.PROGRAM_CURRENTLY_TESTING,
             completedTests: Object.entries(testResultsObjects).length,
             testResults: [],
         };
+    }
 
-        program.result = result;
+    private isInProgress(status: ProgramStatus): boolean {
+        return status === ProgramStatus.PROGRAM_AWAITING_TESTS
+            || status === ProgramStatus.PROGRAM_CURRENTLY_TESTING;
+    }
 
-        // If the testing is not completed, getResults again...
-        if (program.status === ProgramStatus.PROGRAM_AWAITING_TESTS
-            || program.status === ProgramStatus.PROGRAM_CURRENTLY_TESTING) {
-            this.onTestsUpdateEmitter.fire({ program });
-            await this.delay(this.POLL_TIMEOUT_MS).then(() => this.getResults(dirURI));
-            return;
+    private async mergeWithPreviousResults(dirURI: string, responseResult: any): Promise<any> {
+        const previousContent = await this.loadAutotestResultsFile(dirURI);
+        if (previousContent === undefined) {
+            return responseResult;
         }
 
-        // TODO: Populate program.taskResults
-
-        await this.writeAutotestResultsFile(dirURI, JSON.stringify(responseResult, null, 4));
-        this.clearProgramResults(dirURI);
+        try {
+            const previous = JSON.parse(previousContent);
+            return {
+                ...responseResult,
+                test_results: {
+                    ...(previous.test_results ?? {}),
+                    ...(responseResult.test_results ?? {}),
+                },
+            };
+        } catch (_) {
+            return responseResult;
+        }
+    }
 
-        this.onTestsFinishedEmitter.fire({ program });
+    private async archiveResults(dirURI: string, program: Program, responseResult: any) {
+        const tests = this.mapTestResults(responseResult.test_results);
+        try {
+            await this.historyService.addRun(dirURI, {
+                timestamp: Date.now(),
+                programID: program.id,
+                taskID: program.taskID,
+                passed: tests.filter(test => test.success).length,
+                total: tests.length,
+                tests,
+            });
+        } catch (err) {
+            console.log(`Could not archive autotest results for ${dirURI}: ${err}`);
+        }
     }
 
     public async cancelTests(dirURI: string, preventNonUserInvokedCancel: boolean = true): Promise<AutotestCancelStatus> {
+        const queuedIndex = this.queuedRuns.findIndex(run => run.uri === dirURI);
+        if (queuedIndex !== -1) {
+            if (preventNonUserInvokedCancel && !this.queuedRuns[queuedIndex].isUserInvoked) {
+                return AutotestCancelStatus.NOT_USER_INVOKED;
+            }
+
+            this.queuedRuns.splice(queuedIndex, 1);
+            this.fireRunQueueChanged();
+            this.onRunCanceledEmitter.fire({ uri: dirURI });
+            return AutotestCancelStatus.CANCELED;
+        }
+
         const program = this.getProgram(dirURI);
+        const activeRun = this.activeRuns.get(dirURI);
 
-        if (program === undefined) {
+        if (program === undefined && activeRun === undefined) {
             return AutotestCancelStatus.NO_PROGRAM;
         }
 
         // TODO: Check if this condition is correct...
-        if (preventNonUserInvokedCancel && !program.isUserInvoked) {
+        const isUserInvoked = activeRun?.isUserInvoked ?? program?.isUserInvoked;
+        if (preventNonUserInvokedCancel && !isUserInvoked) {
             return AutotestCancelStatus.NOT_USER_INVOKED;
         }
 
+        // Programs still being submitted are taken out of the autotester queue by `submitTask`
+        const isSubmitted = this.subscriptions[dirURI] !== undefined;
+
         this.removeProgram(dirURI);
+        if (program === undefined) {
+            this.onRunCanceledEmitter.fire({ uri: dirURI });
+            return AutotestCancelStatus.CANCELED;
+        }
+
         this.onTestsCanceledEmitter.fire({ program });
 
-        return AutotestCancelStatus.CANCELED;
+        if (!isSubmitted) {
+            return AutotestCancelStatus.CANCELED;
+        }
+
+        try {
+            const dequeued = await this.autotester.cancelProgram(program.backend ?? 'remote', program.id);
+            return dequeued ? AutotestCancelStatus.CANCELED : AutotestCancelStatus.CANCELED_NOT_DEQUEUED;
+        } catch (err) {
+            console.log(`Could not cancel program ${program.id} on the autotester: ${err}`);
+            return AutotestCancelStatus.CANCELED_NOT_DEQUEUED;
+        }
     }
 
     public removeProgram(dirURI: string) {
+        const run = this.activeRuns.get(dirURI);
+        run?.abortController.abort();
+        this.subscriptions[dirURI]?.dispose();
+        this.subscriptions[dirURI] = undefined;
+        this.persistInFlightPrograms();
+
         const program = this.state.programs[dirURI];
         if (program) {
             this.onProgramRemovedEmitter.fire({ program });
             this.state.programs[dirURI] = undefined;
         }
+
+        this.releaseRun(run);
     }
 
     private integerToProgramStatus(status: number): ProgramStatus {
         return integerToProgramStatusMapping[status];
     }
 
-    private delay(ms: number) {
-        return new Promise(resolve => setTimeout(resolve, ms));
-    }
-
     private async loadAutotestFile(dirURI: string): Promise<string | undefined> {
         try {
             const autotestURI = `${dirURI}/${this.AUTOTEST_FILENAME}`;
@@ -399,6 +1087,25 @@ export class AutotestService {
         return await this.fileService.create(new URI(uri), content);
     }
 
+    public async getDefinedTests(dirURI: string): Promise<AutotestDefinition[]> {
+        const autotestContent = await this.loadAutotestFile(dirURI);
+        if (autotestContent === undefined) {
+            return [];
+        }
+
+        try {
+            const autotest = JSON.parse(autotestContent);
+            const tests: any[] = autotest.tests ?? [];
+            return tests.map((test, index) => ({
+                id: Number(test.id),
+                label: test.name ?? `Test ${index + 1}`,
+                silent: !!(test.options && test.options.includes('silent')),
+            }));
+        } catch (_) {
+            return [];
+        }
+    }
+
     public async hasAutotestsDefined(dirURI: string): Promise<boolean> {
         const uri = `${dirURI}/${this.AUTOTEST_FILENAME}`;
         const trimmed = await this.getPathInWorkspace(uri);
@@ -431,17 +1138,7 @@ export class AutotestService {
         }
 
         const data = JSON.parse(content)
-        let testResults: TestResult[] = [];
-        if (data.test_results) {
-            const testResultObjects = Object.entries(data.test_results);
-            testResults = testResultObjects.map(([key, value]) => {
-                const result = value as any;
-                const id = Number(key);
-                const success = result.success as boolean;
-                const status = this.integerToTestResultStatus(result.status);
-                return { id, success, status };
-            });
-        }
+        const testResults = this.mapTestResults(data.test_results);
 
         const result: Result = {
             isBeingTested: false,
@@ -481,6 +1178,20 @@ export class AutotestService {
         return { total, passed };
     }
 
+    private mapTestResults(testResultObjects: any): TestResult[] {
+        if (!testResultObjects) {
+            return [];
+        }
+
+        return Object.entries(testResultObjects).map(([key, value]) => {
+            const result = value as any;
+            const id = Number(key);
+            const success = result.success as boolean;
+            const status = this.integerToTestResultStatus(result.status);
+            return { id, success, status };
+        });
+    }
+
     private integerToTestResultStatus(status: number): TestResultStatus {
         return integerToTestResultStatusMapping[status];
     }
@@ -490,63 +1201,64 @@ export class AutotestService {
         return program !== undefined && program.result !== undefined;
     }
 
-    public async getResultsPage(dirURI: string, taskID: number): Promise<string | undefined> {
-        const autotestContent = await this.loadAutotestFile(dirURI);
+    public async getTestDetails(dirURI: string, testID: number): Promise<TestDetails | undefined> {
+        const testsDetails = await this.getTestsDetails(dirURI);
+        return testsDetails.find(details => details.id === testID);
+    }
+
+    public async getTestsDetails(dirURI: string): Promise<TestDetails[]> {
         const resultsContent = await this.loadAutotestResultsFile(dirURI);
+        if (resultsContent === undefined) {
+            return [];
+        }
 
-        if (autotestContent === undefined || resultsContent === undefined) {
-            return undefined;
+        const autotestContent = await this.loadAutotestFile(dirURI);
+
+        let results;
+        let autotest;
+        try {
+            results = JSON.parse(resultsContent);
+            autotest = autotestContent !== undefined ? JSON.parse(autotestContent) : {};
+        } catch (err) {
+            console.log(`Could not parse test details for ${dirURI}: ${err}`);
+            return [];
         }
 
-        const autotest = encodeURIComponent(autotestContent);
-        const results = encodeURIComponent(resultsContent);
+        return this.getTaskTestsDetails(autotest, results);
+    }
 
-        const url = `/autotester/render/render.php?language=bs`
-        const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded'
-            },
-            body: `task=${autotest}&result=${results}&test=${taskID}`
+    /**
+     * Joins autotester results with the tests of the task they were produced by.
+     */
+    public getTaskTestsDetails(autotest: any, results: any): TestDetails[] {
+        const tests: any[] = autotest?.tests ?? [];
+
+        return Object.entries(results?.test_results ?? {}).map(([key, value]) => {
+            const id = Number(key);
+            const test = tests.find(t => Number(t.id) === id) ?? {};
+            return this.mapTestDetails(id, value, test);
         });
-        return res.text();
     }
 
-    public async openResultsPage(dirURI: string, testID: number) {
-        const autotestContent = await this.loadAutotestFile(dirURI);
-        const resultsContent = await this.loadAutotestResultsFile(dirURI);
+    private mapTestDetails(id: number, result: any, test: any): TestDetails {
+        const patches: any[] = test.patch ?? [];
+        const tools = result.tools ?? {};
+        const execute = tools.execute ?? {};
+        const runtimeMessages = [execute.stderr, tools.debug?.output, tools.profile?.output];
 
-        if (autotestContent === undefined || resultsContent === undefined) {
-            return undefined;
-        }
-
-        const form = document.createElement("form");
-        form.setAttribute("id", "renderer_form");
-        form.setAttribute("method", "post");
-        // TODO: Check if language is set properly
-        form.setAttribute("action", "/autotester/render/render.php?language=bs");
-        form.setAttribute("target", "view");
-
-        const hiddenField = document.createElement("input");
-        hiddenField.setAttribute("type", "hidden");
-        hiddenField.setAttribute("name", "task");
-        hiddenField.setAttribute("value", autotestContent);
-        form.appendChild(hiddenField);
-        const hiddenField1 = document.createElement("input");
-        hiddenField1.setAttribute("type", "hidden");
-        hiddenField1.setAttribute("name", "result");
-        hiddenField1.setAttribute("value", resultsContent);
-        form.appendChild(hiddenField1);
-        const hiddenField2 = document.createElement("input");
-        hiddenField2.setAttribute("type", "hidden");
-        hiddenField2.setAttribute("name", "test");
-        hiddenField2.setAttribute("value", testID.toString());
-        form.appendChild(hiddenField2);
-        document.body.appendChild(form);
-
-        window.open('', 'view', 'toolbar=0,scrollbars=1,location=0,statusbar=0,menubar=0,resizable=0,width=700,height=700,left=312,top=234');
-        form.submit();
-        document.body.removeChild(form);
+        return {
+            id,
+            success: result.success as boolean,
+            status: this.integerToTestResultStatus(result.status),
+            code: patches.map(patch => patch.code ?? '').join('\n'),
+            input: test.execute?.input ?? '',
+            expected: test.execute?.expect ?? execute.expected ?? [],
+            output: execute.output ?? '',
+            compileOutput: tools.compile?.output ?? '',
+            runtimeOutput: runtimeMessages.filter(message => !!message).join('\n'),
+            exitCode: execute.exit_code ?? undefined,
+            duration: execute.duration ?? result.run_time,
+        };
     }
 
 }
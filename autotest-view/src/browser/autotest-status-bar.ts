@@ -0,0 +1,73 @@
+import { injectable, inject } from 'inversify';
+import { FrontendApplicationContribution } from '@theia/core/lib/browser';
+import { StatusBar, StatusBarAlignment } from '@theia/core/lib/browser/status-bar/status-bar';
+import { EditorManager } from '@theia/editor/lib/browser';
+import { AutotestService, RunQueueEntry } from './autotest-service';
+import { AutotestViewCommand } from './autotest-view-contribution';
+
+/**
+ * Shows runs of assignment directories other than the one of the current editor in the status bar,
+ * since the Autotest widget only follows the current editor.
+ */
+@injectable()
+export class AutotestStatusBarContribution implements FrontendApplicationContribution {
+
+    private readonly ELEMENT_PREFIX = 'autotest-run:';
+    private readonly PRIORITY = 10;
+
+    private shownElements: string[] = [];
+
+    @inject(StatusBar)
+    protected readonly statusBar: StatusBar;
+
+    @inject(AutotestService)
+    protected readonly autotestService: AutotestService;
+
+    @inject(EditorManager)
+    protected readonly editorManager: EditorManager;
+
+    onStart(): void {
+        this.autotestService.onRunQueueChanged(() => this.updateStatusBar());
+        this.autotestService.onTestsUpdate(() => this.updateStatusBar());
+        this.editorManager.onCurrentEditorChanged(() => this.updateStatusBar());
+        this.updateStatusBar();
+    }
+
+    private updateStatusBar() {
+        const currentDirectory = this.editorManager.currentEditor?.getResourceUri()?.parent.toString();
+        const backgroundRuns = this.autotestService.getRunQueue().filter(entry => entry.uri !== currentDirectory);
+        const elements = backgroundRuns.map(entry => this.ELEMENT_PREFIX + entry.uri);
+
+        this.shownElements
+            .filter(id => !elements.includes(id))
+            .forEach(id => this.statusBar.removeElement(id));
+
+        backgroundRuns.forEach(entry => this.statusBar.setElement(this.ELEMENT_PREFIX + entry.uri, {
+            text: `${entry.state === 'queued' ? '$(clock-o)' : '$(refresh~spin)'} ${this.getDirectoryName(entry.uri)}`,
+            tooltip: this.getTooltip(entry),
+            alignment: StatusBarAlignment.LEFT,
+            priority: this.PRIORITY,
+            command: AutotestViewCommand.id,
+        }));
+
+        this.shownElements = elements;
+    }
+
+    private getTooltip(entry: RunQueueEntry): string {
+        const name = this.getDirectoryName(entry.uri);
+        if (entry.state === 'queued') {
+            return `Tests of ${name} are waiting in the test queue (#${entry.position})`;
+        }
+
+        const program = this.autotestService.getProgram(entry.uri);
+        if (program?.result?.isBeingTested) {
+            return `Testing ${name}: ${program.result.completedTests} out of ${program.totalTests} tests done`;
+        }
+        return `Testing ${name}...`;
+    }
+
+    private getDirectoryName(dirURI: string): string {
+        return dirURI.slice(dirURI.lastIndexOf('/') + 1);
+    }
+
+}
@@ -1,13 +1,18 @@
 import { injectable, inject } from 'inversify';
 import { MenuModelRegistry } from '@theia/core';
 import { AutotestViewWidget } from './autotest-view-widget';
-import { AbstractViewContribution, FrontendApplicationContribution, FrontendApplication } from '@theia/core/lib/browser';
+import { AbstractViewContribution, FrontendApplicationContribution, FrontendApplication, open, OpenerService } from '@theia/core/lib/browser';
 import { Command, CommandRegistry } from '@theia/core/lib/common/command';
 import { MaybePromise } from '@theia/core/lib/common/types';
 import { FrontendApplicationStateService } from '@theia/core/lib/browser/frontend-application-state';
 import { WorkspaceService } from '@theia/workspace/lib/browser';
+import { EditorManager } from '@theia/editor/lib/browser';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import URI from '@theia/core/lib/common/uri';
+import { AutotestEditorOpenHandler } from './autotest-editor-open-handler';
 
 export const AutotestViewCommand: Command = { id: 'autotest-view:command' };
+export const AutotestEditCommand: Command = { id: 'autotest-view:edit-autotests', label: 'Autotest: Edit Autotests' };
 
 @injectable()
 export class AutotestViewContribution extends AbstractViewContribution<AutotestViewWidget> implements FrontendApplicationContribution {
@@ -18,6 +23,14 @@ export class AutotestViewContribution extends AbstractViewContribution<AutotestV
     @inject(WorkspaceService)
     protected readonly workspaceService: WorkspaceService;
 
+    @inject(EditorManager)
+    protected readonly editorManager: EditorManager;
+
+    @inject(FileService)
+    protected readonly fileService: FileService;
+
+    @inject(OpenerService)
+    protected readonly openerService: OpenerService;
 
     constructor() {
         super({
@@ -32,6 +45,28 @@ export class AutotestViewContribution extends AbstractViewContribution<AutotestV
         commands.registerCommand(AutotestViewCommand, {
             execute: () => super.openView({ activate: true, reveal: true })
         });
+        commands.registerCommand(AutotestEditCommand, {
+            execute: () => this.editAutotests(),
+            isEnabled: () => this.editorManager.currentEditor !== undefined
+        });
+    }
+
+    /**
+     * Opens the autotests of the assignment in the current editor, creating a file with one empty test if there are none yet.
+     */
+    private async editAutotests() {
+        const editor = this.editorManager.currentEditor;
+        if (editor === undefined) {
+            return;
+        }
+
+        const autotestURI = new URI(editor.editor.uri.parent.toString() + '/' + AutotestEditorOpenHandler.AUTOTEST_FILE_NAME);
+        if (!await this.fileService.exists(autotestURI)) {
+            const autotest = { name: editor.editor.uri.parent.path.base, tests: [{ id: 1, execute: { input: '', expect: [''] } }] };
+            await this.fileService.create(autotestURI, JSON.stringify(autotest, null, 4));
+        }
+
+        await open(this.openerService, autotestURI);
     }
 
     registerMenus(menus: MenuModelRegistry): void {
@@ -1,20 +1,58 @@
 import { ContainerModule } from 'inversify';
 import { AutotestViewWidget } from './autotest-view-widget';
 import { AutotestViewContribution } from './autotest-view-contribution';
-import { bindViewContribution, FrontendApplicationContribution, WidgetFactory } from '@theia/core/lib/browser';
+import { bindViewContribution, FrontendApplicationContribution, OpenHandler, WidgetFactory } from '@theia/core/lib/browser';
+import { WebSocketConnectionProvider } from '@theia/core/lib/browser/messaging';
 
 import '../../src/browser/style/index.css';
 import { Autotester } from './autotester';
 import { AutotestService } from './autotest-service';
+import { RemoteAutotesterBackend } from './remote-autotester-backend';
+import { LocalAutotesterBackend } from './local-autotester-backend';
+import { bindAutotestPreferences } from './autotest-preferences';
+import { AutotestHistoryService } from './autotest-history';
+import { ResultSubscriptionService } from './result-subscription';
+import { AutotestDiagnosticsContribution } from './autotest-diagnostics';
+import { AutotestStatusBarContribution } from './autotest-status-bar';
+import { AutotestOnSaveContribution } from './autotest-on-save';
+import { AutotestEditorWidget, AutotestEditorWidgetOptions } from './autotest-editor-widget';
+import { AutotestEditorOpenHandler } from './autotest-editor-open-handler';
+import { LocalAutotestServer, LOCAL_AUTOTEST_PATH } from '../common/local-autotest-protocol';
 
 export default new ContainerModule(bind => {
     bindViewContribution(bind, AutotestViewContribution);
     bind(FrontendApplicationContribution).toService(AutotestViewContribution);
     bind(AutotestViewWidget).toSelf();
+    bindAutotestPreferences(bind);
+    bind(LocalAutotestServer).toDynamicValue(ctx => {
+        const connection = ctx.container.get(WebSocketConnectionProvider);
+        return connection.createProxy<LocalAutotestServer>(LOCAL_AUTOTEST_PATH);
+    }).inSingletonScope();
+    bind(RemoteAutotesterBackend).toSelf().inSingletonScope();
+    bind(LocalAutotesterBackend).toSelf().inSingletonScope();
     bind(Autotester).toSelf().inSingletonScope();
     bind(AutotestService).toSelf().inSingletonScope();
+    bind(AutotestHistoryService).toSelf().inSingletonScope();
+    bind(ResultSubscriptionService).toSelf().inSingletonScope();
+    bind(AutotestDiagnosticsContribution).toSelf().inSingletonScope();
+    bind(FrontendApplicationContribution).toService(AutotestDiagnosticsContribution);
+    bind(AutotestStatusBarContribution).toSelf().inSingletonScope();
+    bind(FrontendApplicationContribution).toService(AutotestStatusBarContribution);
+    bind(AutotestOnSaveContribution).toSelf().inSingletonScope();
+    bind(FrontendApplicationContribution).toService(AutotestOnSaveContribution);
     bind(WidgetFactory).toDynamicValue(ctx => ({
         id: AutotestViewWidget.ID,
         createWidget: () => ctx.container.get<AutotestViewWidget>(AutotestViewWidget)
     })).inSingletonScope();
+    bind(AutotestEditorOpenHandler).toSelf().inSingletonScope();
+    bind(OpenHandler).toService(AutotestEditorOpenHandler);
+    bind(WidgetFactory).toDynamicValue(ctx => ({
+        id: AutotestEditorWidget.ID,
+        createWidget: (options: AutotestEditorWidgetOptions) => {
+            const child = ctx.container.createChild();
+            child.bind(AutotestEditorWidgetOptions).toConstantValue(options);
+            child.bind(AutotestEditorWidget).toSelf();
+            return child.get(AutotestEditorWidget);
+        }
+    })).inSingletonScope();
 });
@@ -2,9 +2,25 @@ import * as React from 'react';
 import { injectable, postConstruct, inject } from 'inversify';
 import { ReactWidget } from '@theia/core/lib/browser/widgets/react-widget';
 import { MessageService } from '@theia/core';
+import { PreferenceScope, PreferenceService } from '@theia/core/lib/browser/preferences';
 import { EditorManager, EditorWidget } from '@theia/editor/lib/browser';
 import { FileSystem } from '@theia/filesystem/lib/common';
-import { AutotestService, AutotestRunStatus, Program, TestResult, AutotestCancelStatus } from './autotest-service';
+import {
+    AutotestService,
+    AutotestRunStatus,
+    Program,
+    TestResult,
+    AutotestCancelStatus,
+    TestDetails,
+    AutotestDefinition,
+    UploadPreview,
+    AutotestRunInfo,
+    RunQueueEntry
+} from './autotest-service';
+import { diffLines } from './output-diff';
+import { AutotestHistoryService, AutotestRunRecord } from './autotest-history';
+import { AutotestRunError } from './autotest-errors';
+import { AutotestPreferences } from './autotest-preferences';
 
 interface AutotestWidgetState {
     programDirectoryURI: string | undefined;
@@ -12,6 +28,17 @@ interface AutotestWidgetState {
     statusMessage: string;
     progressMessage: string;
     isRunningTests: boolean;
+    selectedTestDetails: TestDetails | undefined;
+    history: AutotestRunRecord[];
+    isHistoryVisible: boolean;
+    comparedRuns: number[];
+    definedTests: AutotestDefinition[];
+    selectedTestIDs: number[];
+    isTestSelectionVisible: boolean;
+    runError: AutotestRunError | undefined;
+    uploadPreview: UploadPreview | undefined;
+    isUploadPreviewVisible: boolean;
+    runQueue: RunQueueEntry[];
 }
 
 @injectable()
@@ -25,7 +52,18 @@ export class AutotestViewWidget extends ReactWidget {
         autotestResults: [],
         statusMessage: '',
         progressMessage: '',
-        isRunningTests: false
+        isRunningTests: false,
+        selectedTestDetails: undefined,
+        history: [],
+        isHistoryVisible: false,
+        comparedRuns: [],
+        definedTests: [],
+        selectedTestIDs: [],
+        isTestSelectionVisible: false,
+        runError: undefined,
+        uploadPreview: undefined,
+        isUploadPreviewVisible: false,
+        runQueue: [],
     };
 
     @inject(MessageService)
@@ -40,6 +78,15 @@ export class AutotestViewWidget extends ReactWidget {
     @inject(AutotestService)
     protected readonly autotestService!: AutotestService;
 
+    @inject(AutotestHistoryService)
+    protected readonly historyService!: AutotestHistoryService;
+
+    @inject(AutotestPreferences)
+    protected readonly preferences!: AutotestPreferences;
+
+    @inject(PreferenceService)
+    protected readonly preferenceService!: PreferenceService;
+
     @postConstruct()
     protected async init(): Promise<void> {
         this.id = AutotestViewWidget.ID;
@@ -51,9 +98,50 @@ export class AutotestViewWidget extends ReactWidget {
 
         this.autotestService.onTestsUpdate(autotestEvent => {
             const program = autotestEvent.program;
+            if (program.uri !== this.state.programDirectoryURI && this.state.runQueue.length > 0) {
+                // Refresh the progress shown in the test queue
+                this.update();
+            }
             this.setStateProcessing(program);
         });
 
+        this.autotestService.onRunQueueChanged(runQueue => {
+            this.setState(state => {
+                state.runQueue = runQueue;
+            });
+
+            // Runs can also be started in the background, e.g. when testing on save
+            const dirURI = this.state.programDirectoryURI;
+            if (dirURI === undefined || this.state.isRunningTests) {
+                return;
+            }
+            if (this.autotestService.isQueued(dirURI)) {
+                this.setStateQueued();
+            } else if (this.autotestService.isScheduled(dirURI)) {
+                this.setState(state => {
+                    state.statusMessage = 'Initializing testing...';
+                    state.progressMessage = '';
+                    state.autotestResults = [];
+                    state.isRunningTests = true;
+                    state.runError = undefined;
+                });
+            }
+        });
+
+        this.preferences.onPreferenceChanged(event => {
+            if (event.preferenceName === 'autotest.testOnSave') {
+                this.update();
+            }
+        });
+
+        this.autotestService.onRunFailed(runFailedEvent => {
+            if (runFailedEvent.uri === this.state.programDirectoryURI) {
+                this.showRunFailure(runFailedEvent.runInfo);
+            } else {
+                this.messageService.error(`Could not test ${this.getDirectoryName(runFailedEvent.uri)}: ${this.getRunFailureMessage(runFailedEvent.runInfo)}`);
+            }
+        });
+
         this.autotestService.onTestsFinished(autotestEvent => {
             const program = autotestEvent.program;
             if (program.uri === this.state.programDirectoryURI) {
@@ -61,6 +149,17 @@ export class AutotestViewWidget extends ReactWidget {
             }
         });
 
+        this.autotestService.onTestsFailed(autotestEvent => {
+            if (autotestEvent.program.uri === this.state.programDirectoryURI) {
+                this.setState(state => {
+                    state.statusMessage = 'Could not get test results from the autotester. Please try again.';
+                    state.progressMessage = '';
+                    state.autotestResults = [];
+                    state.isRunningTests = false;
+                });
+            }
+        });
+
         this.autotestService.onProgramRemoved(autotestEvent => {
             const uri = autotestEvent.program.uri;
             if (uri === this.state.programDirectoryURI) {
@@ -69,6 +168,14 @@ export class AutotestViewWidget extends ReactWidget {
             }
         });
 
+        this.historyService.onHistoryChanged(historyEvent => {
+            if (historyEvent.dirURI === this.state.programDirectoryURI) {
+                this.setState(state => {
+                    state.history = historyEvent.history;
+                });
+            }
+        });
+
         this.editorManager.onCreated(editorWidget => this.handleEditorSwitch(editorWidget));
         this.editorManager.onCurrentEditorChanged(editorWidget => this.handleEditorSwitch(editorWidget));
 
@@ -102,6 +209,17 @@ export class AutotestViewWidget extends ReactWidget {
             state.progressMessage = isBeingTested ? completionMessage : queueMessage;
             state.autotestResults = [];
             state.isRunningTests = true;
+            state.selectedTestDetails = undefined;
+        });
+    }
+
+    private setStateQueued() {
+        this.setState(state => {
+            state.statusMessage = 'Waiting for other test runs to finish...';
+            state.progressMessage = '';
+            state.autotestResults = [];
+            state.isRunningTests = true;
+            state.selectedTestDetails = undefined;
         });
     }
 
@@ -113,6 +231,7 @@ export class AutotestViewWidget extends ReactWidget {
                 state.statusMessage = 'This program has not been tested before.';
                 state.progressMessage = '';
                 state.isRunningTests = false;
+                state.selectedTestDetails = undefined;
             });
             return;
         }
@@ -121,6 +240,7 @@ export class AutotestViewWidget extends ReactWidget {
             state.progressMessage = '';
             state.autotestResults = program.result?.testResults ?? [];
             state.isRunningTests = false;
+            state.selectedTestDetails = undefined;
         });
     }
 
@@ -144,11 +264,26 @@ export class AutotestViewWidget extends ReactWidget {
         }
         this.setState(state => {
             state.programDirectoryURI = uri;
+            state.selectedTestDetails = undefined;
+            state.history = [];
+            state.comparedRuns = [];
+            state.definedTests = [];
+            state.selectedTestIDs = [];
+            state.runError = undefined;
+            state.uploadPreview = undefined;
+            state.isUploadPreviewVisible = false;
         });
 
+        this.loadHistory(uri);
+        this.loadDefinedTests(uri);
+
         if (this.state.programDirectoryURI === undefined) {
             return;
         }
+        if (this.autotestService.isQueued(this.state.programDirectoryURI)) {
+            this.setStateQueued();
+            return;
+        }
         if (this.autotestService.isBeingTested(this.state.programDirectoryURI)) {
             const program = this.autotestService.getProgram(this.state.programDirectoryURI);
             if (program === undefined || program.result === undefined) {
@@ -171,6 +306,27 @@ export class AutotestViewWidget extends ReactWidget {
         await this.setStateFinished(this.state.programDirectoryURI);
     }
 
+    private async loadHistory(dirURI: string) {
+        const history = await this.historyService.getHistory(dirURI);
+        if (dirURI !== this.state.programDirectoryURI) {
+            return;
+        }
+        this.setState(state => {
+            state.history = history;
+        });
+    }
+
+    private async loadDefinedTests(dirURI: string) {
+        const definedTests = await this.autotestService.getDefinedTests(dirURI);
+        if (dirURI !== this.state.programDirectoryURI) {
+            return;
+        }
+        this.setState(state => {
+            state.definedTests = definedTests;
+            state.selectedTestIDs = state.selectedTestIDs.filter(id => definedTests.some(test => test.id === id));
+        });
+    }
+
     protected render(): React.ReactNode {
         if (this.state.programDirectoryURI === undefined) {
             return <div id='autotests-container'>
@@ -187,26 +343,388 @@ export class AutotestViewWidget extends ReactWidget {
             >
                 {this.state.isRunningTests ? "Cancel tests" : "Run tests"}
             </button>
+            <label className="test-on-save">
+                <input
+                    type="checkbox"
+                    checked={this.preferences['autotest.testOnSave']}
+                    onChange={event => this.handleToggleTestOnSave(event.target.checked)}
+                />
+                Test on save
+            </label>
+            {this.renderSubsetButtons()}
+            {this.renderTestSelection()}
             <span>{this.state.statusMessage}</span>
+            {this.renderRunError()}
             <span>{this.state.progressMessage}</span>
             <ul className="test-list">
                 {this.state.autotestResults
                     .map((result, index) => this.renderTestResultItem(index, result))}
             </ul>
+            {this.renderUploadPreview()}
+            {this.renderHistory()}
+            {this.renderRunQueue()}
+        </div>
+    }
+
+    private renderRunQueue(): React.ReactNode {
+        const runQueue = this.state.runQueue;
+        if (runQueue.length === 0) {
+            return undefined;
+        }
+
+        return <div className="test-history">
+            <span className="test-history-toggle">{`Test queue (${runQueue.length})`}</span>
+            <ul className="test-list">
+                {runQueue.map(entry => <li key={entry.uri} className="run-queue-item">
+                    <span className="test-name">{this.getDirectoryName(entry.uri)}</span>
+                    <span className="test-details-note">{this.getRunQueueEntryStatus(entry)}</span>
+                    <button className="theia-button secondary" onClick={() => this.handleCancelQueued(entry.uri)}>Cancel</button>
+                </li>)}
+            </ul>
+        </div>
+    }
+
+    private getRunQueueEntryStatus(entry: RunQueueEntry): string {
+        if (entry.state === 'queued') {
+            return `Queued (#${entry.position})`;
+        }
+
+        const program = this.autotestService.getProgram(entry.uri);
+        if (program === undefined || program.result === undefined) {
+            return 'Submitting...';
+        }
+        if (program.result.isBeingTested) {
+            return `Testing, ${program.result.completedTests}/${program.totalTests} done`;
+        }
+        return program.status.toString();
+    }
+
+    private renderUploadPreview(): React.ReactNode {
+        if (this.state.definedTests.length === 0) {
+            return undefined;
+        }
+
+        const isVisible = this.state.isUploadPreviewVisible;
+        const preview = this.state.uploadPreview;
+
+        return <div className="test-history">
+            <span className="test-history-toggle" onClick={() => this.toggleUploadPreview()}>
+                <i className={`fa fa-chevron-${isVisible ? 'down' : 'right'}`} aria-hidden="true"></i>
+                Files to upload
+            </span>
+            {isVisible && preview === undefined && <span className="test-history-hint">Loading...</span>}
+            {isVisible && preview !== undefined && <span
+                className={`test-history-hint ${preview.totalSize > preview.maxSize ? 'upload-too-large' : ''}`}
+            >
+                {`${preview.included.length} files, ${AutotestRunError.formatSize(preview.totalSize)} of ${AutotestRunError.formatSize(preview.maxSize)} allowed`}
+            </span>}
+            {isVisible && preview !== undefined && <ul className="test-list">
+                {preview.included.map(file => <li key={file.uri} className="upload-file">
+                    <span>{file.path}</span>
+                    <span>{AutotestRunError.formatSize(file.size)}</span>
+                </li>)}
+                {preview.excluded.map(({ file, reason }) => <li key={file.uri} className="upload-file upload-file-excluded" title={reason}>
+                    <span>{file.path}</span>
+                    <span>{reason}</span>
+                </li>)}
+            </ul>}
         </div>
     }
 
+    private renderRunError(): React.ReactNode {
+        if (this.state.runError === undefined) {
+            return undefined;
+        }
+
+        return <div className="run-error">
+            <button className="theia-button secondary" onClick={() => this.handleCopyDiagnostics()}>
+                Copy diagnostics
+            </button>
+            <span className="test-details-note">Send the copied report to your supervisor.</span>
+        </div>;
+    }
+
+    private renderSubsetButtons(): React.ReactNode {
+        if (this.state.isRunningTests || this.state.definedTests.length === 0) {
+            return undefined;
+        }
+
+        const selectedCount = this.state.selectedTestIDs.length;
+        const failedIDs = this.getFailedTestIDs();
+
+        return <div className="run-subset-buttons">
+            <button
+                className="theia-button secondary"
+                disabled={selectedCount === 0}
+                onClick={() => this.handleRunSubset(this.state.selectedTestIDs)}
+            >
+                {`Run selected (${selectedCount})`}
+            </button>
+            <button
+                className="theia-button secondary"
+                disabled={failedIDs.length === 0}
+                onClick={() => this.handleRunSubset(failedIDs)}
+            >
+                {`Re-run failed (${failedIDs.length})`}
+            </button>
+        </div>
+    }
+
+    private renderTestSelection(): React.ReactNode {
+        const definedTests = this.state.definedTests;
+        if (this.state.isRunningTests || definedTests.length === 0) {
+            return undefined;
+        }
+
+        const isVisible = this.state.isTestSelectionVisible;
+
+        return <div className="test-selection">
+            <span className="test-history-toggle" onClick={() => this.toggleTestSelection()}>
+                <i className={`fa fa-chevron-${isVisible ? 'down' : 'right'}`} aria-hidden="true"></i>
+                {`Select tests (${definedTests.length})`}
+            </span>
+            {isVisible && <ul className="test-list">
+                {definedTests.map(test => this.renderTestSelectionItem(test))}
+            </ul>}
+        </div>
+    }
+
+    private renderTestSelectionItem(test: AutotestDefinition): React.ReactNode {
+        const isSelected = this.state.selectedTestIDs.includes(test.id);
+        const result = this.state.autotestResults.find(testResult => testResult.id === test.id);
+        const resultClass = result === undefined ? '' : result.success ? 'test-success' : 'test-fail';
+
+        return <li
+            key={test.id}
+            className={`test-result ${resultClass}`}
+            onClick={() => this.toggleSelectedTest(test.id)}
+        >
+            <span className="test-name">
+                <input type="checkbox" checked={isSelected} readOnly />
+                {test.label}
+            </span>
+            <span className="test-status">
+                {test.silent ? 'Silent' : result?.status.toString() ?? 'Not run'}
+            </span>
+        </li>
+    }
+
+    private toggleTestSelection() {
+        this.setState(state => {
+            state.isTestSelectionVisible = !state.isTestSelectionVisible;
+        });
+    }
+
+    private toggleSelectedTest(testID: number) {
+        this.setState(state => {
+            state.selectedTestIDs = state.selectedTestIDs.includes(testID)
+                ? state.selectedTestIDs.filter(id => id !== testID)
+                : [...state.selectedTestIDs, testID];
+        });
+    }
+
+    private getFailedTestIDs(): number[] {
+        return this.state.autotestResults
+            .filter(result => !result.success)
+            .map(result => result.id);
+    }
+
+    private async handleRunSubset(testIDs: number[]) {
+        if (this.state.programDirectoryURI && testIDs.length > 0) {
+            await this.runTests(this.state.programDirectoryURI, testIDs);
+        }
+    }
+
     private renderTestResultItem(index: number, result: TestResult): React.ReactNode {
+        const details = this.state.selectedTestDetails;
+        const isSelected = details !== undefined && details.id === result.id;
+
+        return <li key={index}>
+            <div
+                className={`test-result ${result.success ? 'test-success' : 'test-fail'}`}
+                onClick={() => this.handleOpenTestResult(result.id)}
+            >
+                <span className="test-name" >{`Test ${index + 1}`}</span>
+                <span className="test-status">{result.status.toString()}</span>
+            </div>
+            {isSelected && details && this.renderTestDetails(details)}
+        </li>
+    }
+
+    private renderTestDetails(details: TestDetails): React.ReactNode {
+        const timing = details.duration !== undefined ? `${details.duration.toFixed(3)} s` : undefined;
+
+        return <div className="test-details">
+            <div className="test-details-summary">
+                {details.exitCode !== undefined && <span>{`Exit code: ${details.exitCode}`}</span>}
+                {timing && <span>{`Time: ${timing}`}</span>}
+            </div>
+            {this.renderTestDetailsSection('Test code', details.code)}
+            {this.renderTestDetailsSection('Input', details.input)}
+            {this.renderOutputDiff(details)}
+            {this.renderTestDetailsSection('Compiler messages', details.compileOutput)}
+            {this.renderTestDetailsSection('Runtime messages', details.runtimeOutput)}
+        </div>
+    }
+
+    private renderTestDetailsSection(title: string, content: string): React.ReactNode {
+        if (!content) {
+            return undefined;
+        }
+
+        return <div className="test-details-section">
+            <span className="test-details-title">{title}</span>
+            <pre className="test-details-content">{content}</pre>
+        </div>
+    }
+
+    private renderOutputDiff(details: TestDetails): React.ReactNode {
+        if (details.expected.length === 0) {
+            return this.renderTestDetailsSection('Output', details.output);
+        }
+
+        const diff = diffLines(details.expected[0], details.output);
+        const otherVariants = details.expected.length - 1;
+
+        return <div className="test-details-section">
+            <span className="test-details-title">Expected vs. actual output</span>
+            <pre className="test-details-content">
+                {diff.map((line, index) => <div key={index} className={`diff-line diff-${line.type}`}>
+                    {`${this.diffLinePrefix(line.type)} ${line.text}`}
+                </div>)}
+            </pre>
+            {otherVariants > 0 && <span className="test-details-note">
+                {`${otherVariants} more accepted output variant(s) not shown.`}
+            </span>}
+        </div>
+    }
+
+    private diffLinePrefix(type: string): string {
+        if (type === 'added') {
+            return '+';
+        }
+        if (type === 'removed') {
+            return '-';
+        }
+        return ' ';
+    }
+
+    private renderHistory(): React.ReactNode {
+        const history = this.state.history;
+        if (history.length === 0) {
+            return undefined;
+        }
+
+        const isVisible = this.state.isHistoryVisible;
+
+        return <div className="test-history">
+            <span className="test-history-toggle" onClick={() => this.toggleHistory()}>
+                <i className={`fa fa-chevron-${isVisible ? 'down' : 'right'}`} aria-hidden="true"></i>
+                {`History (${history.length} runs)`}
+            </span>
+            {isVisible && <span className="test-history-hint">Select two runs to compare them.</span>}
+            {isVisible && <ul className="test-list">
+                {history.slice().reverse().map(run => this.renderHistoryItem(run))}
+            </ul>}
+            {isVisible && this.renderRunComparison()}
+        </div>
+    }
+
+    private renderHistoryItem(run: AutotestRunRecord): React.ReactNode {
+        const allPassed = run.total > 0 && run.passed === run.total;
+        const isCompared = this.state.comparedRuns.includes(run.timestamp);
+
         return <li
-            key={index}
-            className={`test-result ${result.success ? 'test-success' : 'test-fail'}`}
-            onClick={() => this.handleOpenTestResult(result.id)}
+            key={run.timestamp}
+            className={`test-result ${allPassed ? 'test-success' : 'test-fail'}`}
+            onClick={() => this.toggleComparedRun(run.timestamp)}
         >
-            <span className="test-name" >{`Test ${index + 1}`}</span>
-            <span className="test-status">{result.status.toString()}</span>
+            <span className="test-name">
+                <input type="checkbox" checked={isCompared} readOnly />
+                {new Date(run.timestamp).toLocaleString()}
+            </span>
+            <span className="test-status">{`${run.passed}/${run.total} passed`}</span>
         </li>
     }
 
+    private renderRunComparison(): React.ReactNode {
+        if (this.state.comparedRuns.length !== 2) {
+            return undefined;
+        }
+
+        const runs = this.state.history
+            .filter(run => this.state.comparedRuns.includes(run.timestamp))
+            .sort((a, b) => a.timestamp - b.timestamp);
+        if (runs.length !== 2) {
+            return undefined;
+        }
+
+        const [older, newer] = runs;
+        const comparison = this.historyService.compareRuns(older, newer);
+        const label = (run: AutotestRunRecord, id: number) => `Test ${run.tests.findIndex(test => test.id === id) + 1}`;
+
+        const groups: [string, string, string[]][] = [
+            ['Regressed', 'diff-removed', comparison.regressed.map(id => label(newer, id))],
+            ['Fixed', 'diff-added', comparison.fixed.map(id => label(newer, id))],
+            ['Still failing', '', comparison.stillFailing.map(id => label(newer, id))],
+            ['New tests', '', comparison.added.map(id => label(newer, id))],
+            ['Removed tests', '', comparison.removed.map(id => label(older, id))],
+        ];
+
+        return <div className="test-details">
+            <span className="test-details-title">
+                {`${new Date(older.timestamp).toLocaleString()} \u2192 ${new Date(newer.timestamp).toLocaleString()}`}
+            </span>
+            {groups
+                .filter(([, , tests]) => tests.length > 0)
+                .map(([title, className, tests]) => <div key={title} className={`test-comparison-group ${className}`}>
+                    {`${title}: ${tests.join(', ')}`}
+                </div>)}
+            {comparison.regressed.length === 0 && comparison.fixed.length === 0 &&
+                <span className="test-details-note">No test changed its outcome between these runs.</span>}
+        </div>
+    }
+
+    private toggleHistory() {
+        this.setState(state => {
+            state.isHistoryVisible = !state.isHistoryVisible;
+        });
+    }
+
+    private async toggleUploadPreview() {
+        const dirURI = this.state.programDirectoryURI;
+        const isVisible = !this.state.isUploadPreviewVisible;
+        this.setState(state => {
+            state.isUploadPreviewVisible = isVisible;
+            state.uploadPreview = undefined;
+        });
+
+        if (!isVisible || dirURI === undefined) {
+            return;
+        }
+
+        try {
+            const preview = await this.autotestService.getUploadPreview(dirURI);
+            if (dirURI === this.state.programDirectoryURI) {
+                this.setState(state => state.uploadPreview = preview);
+            }
+        } catch (err) {
+            console.log(`Could not list the files to upload: ${err}`);
+            this.setState(state => state.isUploadPreviewVisible = false);
+        }
+    }
+
+    private toggleComparedRun(timestamp: number) {
+        this.setState(state => {
+            if (state.comparedRuns.includes(timestamp)) {
+                state.comparedRuns = state.comparedRuns.filter(compared => compared !== timestamp);
+            } else {
+                // Keep at most two runs selected, dropping the oldest selection
+                state.comparedRuns = [...state.comparedRuns, timestamp].slice(-2);
+            }
+        });
+    }
+
     private async handleButtonClick() {
         if (this.state.isRunningTests) {
             console.log("Canceling tests...");
@@ -219,16 +737,32 @@ export class AutotestViewWidget extends ReactWidget {
         }
     }
 
-    private async handleOpenTestResult(taskID: number) {
+    private async handleOpenTestResult(testID: number) {
         if (this.state.programDirectoryURI === undefined) {
             return;
         }
 
-        await this.autotestService.openResultsPage(this.state.programDirectoryURI, taskID);
+        const selected = this.state.selectedTestDetails;
+        if (selected !== undefined && selected.id === testID) {
+            this.setState(state => {
+                state.selectedTestDetails = undefined;
+            });
+            return;
+        }
+
+        const details = await this.autotestService.getTestDetails(this.state.programDirectoryURI, testID);
+        if (details === undefined) {
+            this.messageService.info('No details available for this test.');
+            return;
+        }
+
+        this.setState(state => {
+            state.selectedTestDetails = details;
+        });
     }
 
-    public async runTests(dirURI: string) {
-        if (this.autotestService.isBeingTested(dirURI)) {
+    public async runTests(dirURI: string, testIDs?: number[]) {
+        if (this.autotestService.isBeingTested(dirURI) || this.autotestService.isScheduled(dirURI)) {
             this.messageService.info("Allready running tests. Please wait...");
             return;
         }
@@ -239,25 +773,14 @@ export class AutotestViewWidget extends ReactWidget {
                 state.autotestResults = [];
                 state.isRunningTests = true;
                 state.progressMessage = '';
+                state.runError = undefined;
             });
 
-            const runInfo = await this.autotestService.runTests(dirURI, true);
-            if (!runInfo.success) {
-                let message = "";
-                if (runInfo.status === AutotestRunStatus.ERROR_OPENING_DIRECTORY) {
-                    message = "Could not open directory.";
-                } else if (runInfo.status === AutotestRunStatus.NO_AUTOTESTS_DEFINED) {
-                    message = "No autotests defined.";
-                } else if (runInfo.status === AutotestRunStatus.RUNNING) {
-                    message = "Allready running tests...";
-                } else if (runInfo.status === AutotestRunStatus.AUTOTEST_FILE_CORRUPT) {
-                    message = "Autotests are corrupt. Please contact your supervisor!";
-                }
-
-                this.setState(state => {
-                    state.statusMessage = message;
-                    state.isRunningTests = false;
-                });
+            const runInfo = await this.autotestService.runTests(dirURI, true, testIDs);
+            if (!runInfo.success && runInfo.status !== AutotestRunStatus.CANCELED) {
+                this.showRunFailure(runInfo);
+            } else if (runInfo.status === AutotestRunStatus.QUEUED && dirURI === this.state.programDirectoryURI) {
+                this.setStateQueued();
             }
         } catch (err) {
             console.log(`An error occured when running tests: ${err}`);
@@ -271,6 +794,81 @@ export class AutotestViewWidget extends ReactWidget {
         }
     }
 
+    private showRunFailure(runInfo: AutotestRunInfo) {
+        const message = this.getRunFailureMessage(runInfo);
+        this.setState(state => {
+            state.statusMessage = message;
+            state.isRunningTests = false;
+            state.runError = runInfo.error;
+        });
+    }
+
+    private getRunFailureMessage(runInfo: AutotestRunInfo): string {
+        let message = "";
+        if (runInfo.status === AutotestRunStatus.ERROR_OPENING_DIRECTORY) {
+            message = "Could not open directory.";
+        } else if (runInfo.status === AutotestRunStatus.NO_AUTOTESTS_DEFINED) {
+            message = "No autotests defined.";
+        } else if (runInfo.status === AutotestRunStatus.RUNNING) {
+            message = "Allready running tests...";
+        } else if (runInfo.status === AutotestRunStatus.AUTOTEST_FILE_CORRUPT) {
+            message = "Autotests are corrupt. Please contact your supervisor!";
+        } else if (runInfo.status === AutotestRunStatus.ERROR_REACHING_SERVER) {
+            message = "Could not reach the autotester.";
+        }
+
+        const runError = runInfo.error;
+        if (runError !== undefined) {
+            message = runInfo.status === AutotestRunStatus.ERROR_OPENING_DIRECTORY
+                ? `${message} ${AutotestRunError.describe(runError)}`
+                : AutotestRunError.describe(runError);
+        }
+
+        return message;
+    }
+
+    private async handleCancelQueued(dirURI: string) {
+        const cancelStatus = await this.autotestService.cancelTests(dirURI);
+        if (cancelStatus === AutotestCancelStatus.NOT_USER_INVOKED) {
+            this.messageService.info("Could not cancel tests not invoked by user");
+            return;
+        } else if (cancelStatus === AutotestCancelStatus.CANCELED_NOT_DEQUEUED) {
+            this.messageService.info(`Stopped waiting for ${this.getDirectoryName(dirURI)}, but the autotester could not remove it from its queue.`);
+        }
+
+        if (dirURI === this.state.programDirectoryURI) {
+            await this.setStateFinished(dirURI);
+        }
+    }
+
+    private getDirectoryName(dirURI: string): string {
+        return dirURI.slice(dirURI.lastIndexOf('/') + 1);
+    }
+
+    private async handleToggleTestOnSave(enabled: boolean) {
+        await this.preferenceService.set('autotest.testOnSave', enabled, PreferenceScope.User);
+    }
+
+    private async handleCopyDiagnostics() {
+        const runError = this.state.runError;
+        if (runError === undefined) {
+            return;
+        }
+
+        const report = AutotestRunError.toReport(runError, {
+            Directory: this.state.programDirectoryURI ?? '-',
+            Backend: this.preferences['autotest.backend'],
+        });
+
+        try {
+            await navigator.clipboard.writeText(report);
+            this.messageService.info('Diagnostics copied to the clipboard.');
+        } catch (err) {
+            console.log(`Could not copy diagnostics: ${err}\n${report}`);
+            this.messageService.error('Could not access the clipboard. The diagnostics were written to the browser console.');
+        }
+    }
+
     private async handleCancelTests() {
         if (this.state.programDirectoryURI === undefined) {
             return;
@@ -282,6 +880,8 @@ export class AutotestViewWidget extends ReactWidget {
             return;
         } else if (runningStatus === AutotestCancelStatus.NO_PROGRAM) {
             return;
+        } else if (runningStatus === AutotestCancelStatus.CANCELED_NOT_DEQUEUED) {
+            this.messageService.info("Stopped waiting for the results, but the autotester could not remove the program from its queue.");
         }
 
         await this.setStateFinished(this.state.programDirectoryURI);
@@ -1,5 +1,7 @@
-import { injectable } from 'inversify';
-import * as JSZip from 'jszip';
+import { injectable, inject } from 'inversify';
+import { AutotestPreferences } from './autotest-preferences';
+import { RemoteAutotesterBackend } from './remote-autotester-backend';
+import { LocalAutotesterBackend } from './local-autotester-backend';
 
 export interface AssignmentDirectory {
     uri: string;
@@ -7,6 +9,13 @@ export interface AssignmentDirectory {
     files: BinaryAssignmentFile[];
 }
 
+export namespace AssignmentDirectory {
+    export function flatten(directory: AssignmentDirectory): BinaryAssignmentFile[] {
+        const subdirectoryFiles = directory.subdirectories.map(dir => flatten(dir));
+        return directory.files.concat(...subdirectoryFiles);
+    }
+}
+
 export interface AssignmentFile {
     path: string;
     name: string;
@@ -19,87 +28,70 @@ export interface BinaryAssignmentFile {
     content: Uint8Array;
 }
 
+/**
+ * The autotester flow: register the task, register the program under that task,
+ * upload the program files and poll for the results.
+ */
+export interface AutotesterBackend {
+    setTask(autotest: any): Promise<number>;
+    setProgram(programID: number | undefined, taskID: number, programName: string): Promise<number>;
+    setProgramFiles(programID: number, directory: AssignmentDirectory): Promise<void>;
+    getResults(programID: number, signal?: AbortSignal): Promise<any>;
+    // Returns true if the autotester removed the program from its queue before testing it completely
+    cancelProgram(programID: number): Promise<boolean>;
+    // URL of a server-sent events stream of results, if the backend offers one
+    getResultsStreamURL?(programID: number): string | undefined;
+}
+
+export type AutotesterBackendKind = 'remote' | 'local';
+
+/**
+ * Routes the autotester flow to a backend. A program stays on the backend it was submitted to,
+ * so the `autotest.backend` preference only decides where new programs go.
+ */
 @injectable()
 export class Autotester {
 
-    private makeURL(action: string, queryParams: string) {
-        return `/autotester/server/push.php?action=${action}&${queryParams}`;
+    constructor(
+        @inject(RemoteAutotesterBackend) private readonly remoteBackend: RemoteAutotesterBackend,
+        @inject(LocalAutotesterBackend) private readonly localBackend: LocalAutotesterBackend,
+        @inject(AutotestPreferences) private readonly preferences: AutotestPreferences,
+    ) {}
+
+    /**
+     * Backend new programs are submitted to.
+     */
+    public get defaultBackend(): AutotesterBackendKind {
+        return this.preferences['autotest.backend'];
     }
 
-    // Call getTask, not setTask?
-    public async setTask(autotest: any): Promise<number> {
-        const autotestQuery = encodeURIComponent(JSON.stringify(autotest));
-        const url = this.makeURL('setTask', '');
-        const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded'
-            },
-            body: `task=${autotestQuery}`
-        });
-        const data = await res.json();
-
-        console.log(JSON.stringify(data));
-
-        return data.data;
+    private getBackend(kind: AutotesterBackendKind): AutotesterBackend {
+        return kind === 'local' ? this.localBackend : this.remoteBackend;
     }
 
-    public async setProgram(programID: number | undefined, taskID: number, programName: string): Promise<number> {
-        const program: any = { task: taskID, name: programName };
-
-        if(programID) {
-            program.id = programID;
-        }
-
-        const programQuery = encodeURIComponent(JSON.stringify(program));
-        const url = this.makeURL('setProgram', '');
-
-        const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded'
-            },
-            body: `program=${programQuery}`
-        });
-
-        const data = await res.json();
-        return data.data;
+    public setTask(backend: AutotesterBackendKind, autotest: any): Promise<number> {
+        return this.getBackend(backend).setTask(autotest);
     }
 
-    public async setProgramFiles(programID: number, directory: AssignmentDirectory) {
-        const url = this.makeURL('setProgramFile', `id=${programID}`);
-
-        const zip = new JSZip();
-
-        await this.traverse(directory, file => zip.file(file.path, file.content));
-
-        const content = await zip.generateAsync({
-            type: 'blob',
-            compression: 'DEFLATE',
-            compressionOptions: { level: 9 }
-        });
+    public setProgram(backend: AutotesterBackendKind, programID: number | undefined, taskID: number, programName: string): Promise<number> {
+        return this.getBackend(backend).setProgram(programID, taskID, programName);
+    }
 
-        const formData = new FormData();
-        formData.append('program', content);
-        await fetch(url, {
-            method: 'POST',
-            body: formData
-        });
+    public setProgramFiles(backend: AutotesterBackendKind, programID: number, directory: AssignmentDirectory): Promise<void> {
+        return this.getBackend(backend).setProgramFiles(programID, directory);
     }
 
-    private async traverse(directory: AssignmentDirectory, func: (dir: BinaryAssignmentFile) => void): Promise<void> {
-        const subdirectoriesTraverse = directory.subdirectories.map(dir => this.traverse(dir, func));
-        await Promise.all(subdirectoriesTraverse);
-        
-        directory.files.forEach(file => func(file));
+    public getResults(backend: AutotesterBackendKind, programID: number, signal?: AbortSignal): Promise<any> {
+        return this.getBackend(backend).getResults(programID, signal);
     }
 
-    public async getResults(programID: number) {
-        const url = this.makeURL('getResult', `id=${programID}`);
-        const res = await fetch(url);
-        const data = await res.json();
+    public cancelProgram(backend: AutotesterBackendKind, programID: number): Promise<boolean> {
+        return this.getBackend(backend).cancelProgram(programID);
+    }
 
-        return data.data;
+    public getResultsStreamURL(backend: AutotesterBackendKind, programID: number): string | undefined {
+        const autotesterBackend = this.getBackend(backend);
+        return autotesterBackend.getResultsStreamURL ? autotesterBackend.getResultsStreamURL(programID) : undefined;
     }
 
 }
@@ -0,0 +1,81 @@
+export type SourceMessageSeverity = 'error' | 'warning' | 'note';
+
+export interface SourceMessage {
+    // File path as printed by the compiler or runtime tool, usually absolute on the test host
+    file: string;
+    // Zero based, like editor positions
+    line: number;
+    column: number;
+    severity: SourceMessageSeverity;
+    message: string;
+}
+
+export interface UndefinedReference {
+    file: string | undefined;
+    symbol: string;
+}
+
+const COMPILER_MESSAGE_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s+(?:fatal\s+)?(error|warning|note):\s+(.*)$/;
+const UNDEFINED_REFERENCE_PATTERN = /(?:([^\s:]+):\S*:\s+)?undefined reference to [`'‘]([^'’]+)['’]/;
+const SOURCE_LOCATION_PATTERN = /([^\s():]+\.(?:c|cc|cpp|cxx|h|hpp)):(\d+)/;
+
+/**
+ * Parses gcc/clang style `file:line:column: severity: message` lines.
+ */
+export function parseCompilerMessages(output: string): SourceMessage[] {
+    const messages: SourceMessage[] = [];
+
+    output.split('\n').forEach(line => {
+        const match = COMPILER_MESSAGE_PATTERN.exec(line.trim());
+        if (match === null) {
+            return;
+        }
+
+        const [, file, lineNumber, column, severity, message] = match;
+        messages.push({
+            file,
+            line: Math.max(Number(lineNumber) - 1, 0),
+            column: column !== undefined ? Math.max(Number(column) - 1, 0) : 0,
+            severity: severity as SourceMessageSeverity,
+            message,
+        });
+    });
+
+    return messages;
+}
+
+/**
+ * Linker errors carry no line number, only the object or source file and the missing symbol.
+ */
+export function parseUndefinedReferences(output: string): UndefinedReference[] {
+    const references: UndefinedReference[] = [];
+
+    output.split('\n').forEach(line => {
+        const match = UNDEFINED_REFERENCE_PATTERN.exec(line);
+        if (match !== null) {
+            references.push({ file: match[1], symbol: match[2] });
+        }
+    });
+
+    return references;
+}
+
+/**
+ * Finds the first source location in a crash report (debugger backtrace, sanitizer or valgrind output).
+ */
+export function findRuntimeLocation(output: string): { file: string, line: number } | undefined {
+    const match = SOURCE_LOCATION_PATTERN.exec(output);
+    if (match === null) {
+        return undefined;
+    }
+
+    return {
+        file: match[1],
+        line: Math.max(Number(match[2]) - 1, 0),
+    };
+}
+
+export function getBaseName(path: string): string {
+    const parts = path.split(/[\\/]/);
+    return parts[parts.length - 1];
+}
@@ -0,0 +1,89 @@
+import { injectable, inject } from 'inversify';
+import { AssignmentDirectory, AutotesterBackend } from './autotester';
+import { LocalAutotestServer, LocalAutotestFile, LOCAL_AUTOTEST_PATH } from '../common/local-autotest-protocol';
+import { AutotesterServerError } from './autotest-errors';
+
+interface LocalProgram {
+    taskID: number;
+    name: string;
+    jobID?: number;
+}
+
+/**
+ * Keeps tasks and programs in memory and executes them through the `LocalAutotestServer`
+ * running in the IDE backend, so testing works without the remote autotester queue.
+ */
+@injectable()
+export class LocalAutotesterBackend implements AutotesterBackend {
+
+    private tasks = new Map<number, any>();
+    private programs = new Map<number, LocalProgram>();
+    private nextTaskID = 1;
+    private nextProgramID = 1;
+
+    constructor(
+        @inject(LocalAutotestServer) private readonly server: LocalAutotestServer,
+    ) {}
+
+    public async setTask(autotest: any): Promise<number> {
+        const taskID = this.nextTaskID++;
+        this.tasks.set(taskID, autotest);
+        return taskID;
+    }
+
+    public async setProgram(programID: number | undefined, taskID: number, programName: string): Promise<number> {
+        const id = programID ?? this.nextProgramID++;
+        this.programs.set(id, { taskID, name: programName });
+        return id;
+    }
+
+    public async setProgramFiles(programID: number, directory: AssignmentDirectory): Promise<void> {
+        const program = this.programs.get(programID);
+        if (program === undefined) {
+            throw new Error(`Unknown program ${programID}`);
+        }
+
+        const task = this.tasks.get(program.taskID);
+        if (task === undefined) {
+            throw new Error(`Unknown task ${program.taskID}`);
+        }
+
+        const files: LocalAutotestFile[] = AssignmentDirectory.flatten(directory).map(file => ({
+            path: file.path,
+            content: this.toBase64(file.content),
+        }));
+
+        try {
+            program.jobID = await this.server.start(task, files);
+        } catch (err) {
+            throw new AutotesterServerError(LOCAL_AUTOTEST_PATH, err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    public async cancelProgram(programID: number): Promise<boolean> {
+        const program = this.programs.get(programID);
+        if (program === undefined || program.jobID === undefined) {
+            return true;
+        }
+
+        const jobID = program.jobID;
+        program.jobID = undefined;
+        return this.server.cancel(jobID);
+    }
+
+    public async getResults(programID: number): Promise<any> {
+        const program = this.programs.get(programID);
+        if (program === undefined || program.jobID === undefined) {
+            throw new Error(`Program ${programID} has not been submitted for testing`);
+        }
+
+        return this.server.getResult(program.jobID);
+    }
+
+    private toBase64(content: Uint8Array): string {
+        let binary = '';
+        content.forEach(byte => binary += String.fromCharCode(byte));
+        return btoa(binary);
+    }
+
+}
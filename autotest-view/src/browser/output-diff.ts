@@ -0,0 +1,74 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+// Beyond this many line pairs the LCS table gets too big to build in the browser
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Line based diff of the expected and the actual program output.
+ * Lines missing from the actual output are `removed`, unexpected lines are `added`.
+ */
+export function diffLines(expected: string, actual: string): DiffLine[] {
+    const expectedLines = splitLines(expected);
+    const actualLines = splitLines(actual);
+
+    if (expectedLines.length * actualLines.length > MAX_DIFF_CELLS) {
+        return [
+            ...expectedLines.map(text => ({ type: 'removed' as DiffLineType, text })),
+            ...actualLines.map(text => ({ type: 'added' as DiffLineType, text })),
+        ];
+    }
+
+    const lcs = longestCommonSubsequenceTable(expectedLines, actualLines);
+    const diff: DiffLine[] = [];
+
+    let i = 0;
+    let j = 0;
+    while (i < expectedLines.length && j < actualLines.length) {
+        if (expectedLines[i] === actualLines[j]) {
+            diff.push({ type: 'same', text: expectedLines[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            diff.push({ type: 'removed', text: expectedLines[i] });
+            i++;
+        } else {
+            diff.push({ type: 'added', text: actualLines[j] });
+            j++;
+        }
+    }
+
+    expectedLines.slice(i).forEach(text => diff.push({ type: 'removed', text }));
+    actualLines.slice(j).forEach(text => diff.push({ type: 'added', text }));
+
+    return diff;
+}
+
+function splitLines(text: string): string[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+function longestCommonSubsequenceTable(a: string[], b: string[]): number[][] {
+    const table: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+        table.push(new Array(b.length + 1).fill(0));
+    }
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i][j] = a[i] === b[j]
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    return table;
+}
@@ -0,0 +1,121 @@
+import { injectable, inject } from 'inversify';
+import * as JSZip from 'jszip';
+import { EndpointConfiguration } from 'top-bar/lib/browser/endpoint-configuration';
+import { AssignmentDirectory, AutotesterBackend, BinaryAssignmentFile } from './autotester';
+import { AutotesterHttpError, AutotesterServerError } from './autotest-errors';
+
+@injectable()
+export class RemoteAutotesterBackend implements AutotesterBackend {
+
+    @inject(EndpointConfiguration)
+    protected readonly endpoints: EndpointConfiguration;
+
+    private makeURL(action: string, queryParams: string) {
+        return this.endpoints.getURL('autotester', `action=${action}&${queryParams}`);
+    }
+
+    /**
+     * Sends a request to push.php and returns the `data` of its response,
+     * throwing typed errors so failures can be reported with the server's answer.
+     */
+    private async request(url: string, init?: RequestInit): Promise<any> {
+        const res = await fetch(url, init);
+        const body = await res.text();
+        if (!res.ok) {
+            throw new AutotesterHttpError(url, res.status, res.statusText, body);
+        }
+
+        let data;
+        try {
+            data = JSON.parse(body);
+        } catch (_) {
+            throw new AutotesterHttpError(url, res.status, 'Invalid JSON response', body);
+        }
+
+        if (data && (data.success === false || data.success === 'false')) {
+            throw new AutotesterServerError(url, data.message ?? 'Unknown error', data.code);
+        }
+
+        return data?.data;
+    }
+
+    // Call getTask, not setTask?
+    public async setTask(autotest: any): Promise<number> {
+        const autotestQuery = encodeURIComponent(JSON.stringify(autotest));
+        const url = this.makeURL('setTask', '');
+        const data = await this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: `task=${autotestQuery}`
+        });
+
+        console.log(JSON.stringify(data));
+
+        return data;
+    }
+
+    public async setProgram(programID: number | undefined, taskID: number, programName: string): Promise<number> {
+        const program: any = { task: taskID, name: programName };
+
+        if(programID) {
+            program.id = programID;
+        }
+
+        const programQuery = encodeURIComponent(JSON.stringify(program));
+        const url = this.makeURL('setProgram', '');
+
+        return this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: `program=${programQuery}`
+        });
+    }
+
+    public async setProgramFiles(programID: number, directory: AssignmentDirectory): Promise<void> {
+        const url = this.makeURL('setProgramFile', `id=${programID}`);
+
+        const zip = new JSZip();
+
+        await this.traverse(directory, file => zip.file(file.path, file.content));
+
+        const content = await zip.generateAsync({
+            type: 'blob',
+            compression: 'DEFLATE',
+            compressionOptions: { level: 9 }
+        });
+
+        const formData = new FormData();
+        formData.append('program', content);
+        await this.request(url, {
+            method: 'POST',
+            body: formData
+        });
+    }
+
+    private async traverse(directory: AssignmentDirectory, func: (dir: BinaryAssignmentFile) => void): Promise<void> {
+        const subdirectoriesTraverse = directory.subdirectories.map(dir => this.traverse(dir, func));
+        await Promise.all(subdirectoriesTraverse);
+        
+        directory.files.forEach(file => func(file));
+    }
+
+    public async getResults(programID: number, signal?: AbortSignal): Promise<any> {
+        const url = this.makeURL('getResult', `id=${programID}`);
+        return this.request(url, { signal });
+    }
+
+    public async cancelProgram(programID: number): Promise<boolean> {
+        const url = this.makeURL('cancelProgram', `id=${programID}`);
+        const data = await this.request(url, { method: 'POST' });
+        return data === true || data?.dequeued === true;
+    }
+
+    public getResultsStreamURL(programID: number): string {
+        return this.makeURL('streamResult', `id=${programID}`);
+    }
+
+}
@@ -0,0 +1,242 @@
+import { injectable, inject } from 'inversify';
+import { Disposable } from '@theia/core';
+import { Deferred } from '@theia/core/lib/common/promise-util';
+import { Autotester, AutotesterBackendKind } from './autotester';
+import { AutotestPreferences } from './autotest-preferences';
+
+export interface ResultSubscriptionHandler {
+    // When the program was submitted, used to resume a subscription without resetting the maximum wait
+    startedAt: number;
+    // Stops the subscription like `dispose`, also aborting a request in progress
+    signal?: AbortSignal;
+    isFinished(result: any): boolean;
+    onUpdate(result: any): void;
+}
+
+export type ResultSubscriptionOutcome =
+    { kind: 'finished', result: any }
+    | { kind: 'timeout' }
+    | { kind: 'failed', error: any }
+    | { kind: 'disposed' };
+
+export interface ResultSubscription extends Disposable {
+    readonly outcome: Promise<ResultSubscriptionOutcome>;
+}
+
+interface ResultSubscriptionOptions {
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffFactor: number;
+    jitterRatio: number;
+    maxWaitMs: number;
+    maxConsecutiveFailures: number;
+}
+
+/**
+ * Follows the results of a submitted program until testing is done.
+ * Results are streamed with server-sent events when enabled and offered by the backend,
+ * otherwise they are polled with exponential backoff and jitter.
+ */
+@injectable()
+export class ResultSubscriptionService {
+
+    private readonly INITIAL_DELAY_MS = 500;
+    private readonly MAX_DELAY_MS = 10000;
+    private readonly BACKOFF_FACTOR = 1.5;
+    private readonly JITTER_RATIO = 0.2;
+    private readonly MAX_CONSECUTIVE_FAILURES = 8;
+
+    constructor(
+        @inject(Autotester) private readonly autotester: Autotester,
+        @inject(AutotestPreferences) private readonly preferences: AutotestPreferences,
+    ) {}
+
+    public subscribe(backend: AutotesterBackendKind, programID: number, handler: ResultSubscriptionHandler): ResultSubscription {
+        const options: ResultSubscriptionOptions = {
+            initialDelayMs: this.INITIAL_DELAY_MS,
+            maxDelayMs: this.MAX_DELAY_MS,
+            backoffFactor: this.BACKOFF_FACTOR,
+            jitterRatio: this.JITTER_RATIO,
+            maxWaitMs: this.preferences['autotest.maxWaitMinutes'] * 60 * 1000,
+            maxConsecutiveFailures: this.MAX_CONSECUTIVE_FAILURES,
+        };
+
+        const streamURL = this.preferences['autotest.resultTransport'] === 'sse'
+            ? this.autotester.getResultsStreamURL(backend, programID)
+            : undefined;
+
+        const fetchResult = (signal: AbortSignal) => this.autotester.getResults(backend, programID, signal);
+
+        return new ResultSubscriptionImpl(handler, options, fetchResult, streamURL);
+    }
+
+}
+
+class ResultSubscriptionImpl implements ResultSubscription {
+
+    private readonly deferred = new Deferred<ResultSubscriptionOutcome>();
+    readonly outcome = this.deferred.promise;
+
+    private readonly abortController = new AbortController();
+
+    private settled = false;
+    private timer: number | undefined;
+    private eventSource: EventSource | undefined;
+    private delay: number;
+    private failures = 0;
+    private lastResult: string | undefined;
+
+    constructor(
+        private readonly handler: ResultSubscriptionHandler,
+        private readonly options: ResultSubscriptionOptions,
+        private readonly fetchResult: (signal: AbortSignal) => Promise<any>,
+        streamURL: string | undefined,
+    ) {
+        this.delay = options.initialDelayMs;
+
+        const signal = handler.signal;
+        if (signal !== undefined) {
+            if (signal.aborted) {
+                this.dispose();
+                return;
+            }
+            signal.addEventListener('abort', () => this.dispose());
+        }
+
+        if (streamURL !== undefined) {
+            this.listen(streamURL);
+        } else {
+            this.poll();
+        }
+    }
+
+    dispose(): void {
+        this.settle({ kind: 'disposed' });
+    }
+
+    private settle(outcome: ResultSubscriptionOutcome) {
+        if (this.settled) {
+            return;
+        }
+
+        this.settled = true;
+        this.clearTimer();
+        this.closeEventSource();
+        this.abortController.abort();
+        this.deferred.resolve(outcome);
+    }
+
+    private async poll() {
+        if (this.settled) {
+            return;
+        }
+
+        if (this.remainingWaitMs() <= 0) {
+            this.settle({ kind: 'timeout' });
+            return;
+        }
+
+        try {
+            const result = await this.fetchResult(this.abortController.signal);
+            this.failures = 0;
+            if (this.handleResult(result)) {
+                return;
+            }
+        } catch (error) {
+            if (this.settled) {
+                return;
+            }
+            this.failures++;
+            console.log(`Failed to get autotest results (attempt ${this.failures}): ${error}`);
+            if (this.failures >= this.options.maxConsecutiveFailures) {
+                this.settle({ kind: 'failed', error });
+                return;
+            }
+            this.delay = this.nextDelay();
+        }
+
+        this.schedule(() => this.poll(), this.withJitter(this.delay));
+    }
+
+    /**
+     * Returns true if the subscription is settled after handling the result.
+     */
+    private handleResult(result: any): boolean {
+        if (this.settled) {
+            return true;
+        }
+
+        if (this.handler.isFinished(result)) {
+            this.settle({ kind: 'finished', result });
+            return true;
+        }
+
+        // Poll eagerly while results keep changing, back off while nothing happens
+        const serialized = JSON.stringify(result);
+        this.delay = serialized !== this.lastResult ? this.options.initialDelayMs : this.nextDelay();
+        this.lastResult = serialized;
+
+        this.handler.onUpdate(result);
+        return false;
+    }
+
+    private listen(url: string) {
+        const eventSource = new EventSource(url, { withCredentials: true });
+        this.eventSource = eventSource;
+
+        eventSource.onmessage = event => {
+            try {
+                const message = JSON.parse(event.data);
+                this.handleResult(message.data ?? message);
+            } catch (err) {
+                console.log(`Invalid autotest result event: ${err}`);
+            }
+        };
+
+        eventSource.onerror = () => {
+            if (this.settled) {
+                return;
+            }
+            console.log('Autotest result stream unavailable, falling back to polling...');
+            this.closeEventSource();
+            this.clearTimer();
+            this.poll();
+        };
+
+        this.schedule(() => this.settle({ kind: 'timeout' }), this.remainingWaitMs());
+    }
+
+    private schedule(callback: () => void, delayMs: number) {
+        this.clearTimer();
+        const delay = Math.max(0, Math.min(delayMs, this.remainingWaitMs()));
+        this.timer = window.setTimeout(callback, delay);
+    }
+
+    private clearTimer() {
+        if (this.timer !== undefined) {
+            window.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private closeEventSource() {
+        if (this.eventSource !== undefined) {
+            this.eventSource.close();
+            this.eventSource = undefined;
+        }
+    }
+
+    private nextDelay(): number {
+        return Math.min(this.delay * this.options.backoffFactor, this.options.maxDelayMs);
+    }
+
+    private withJitter(delay: number): number {
+        const jitter = delay * this.options.jitterRatio;
+        return delay - jitter + Math.random() * 2 * jitter;
+    }
+
+    private remainingWaitMs(): number {
+        return this.handler.startedAt + this.options.maxWaitMs - Date.now();
+    }
+
+}
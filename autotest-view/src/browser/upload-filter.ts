@@ -0,0 +1,74 @@
+export interface UploadFilter {
+    // Glob patterns relative to the assignment directory, e.g. `**/*.c`
+    include: string[];
+    exclude: string[];
+}
+
+export namespace UploadFilter {
+
+    /**
+     * Combines the workspace settings with the `upload` section of an autotest task.
+     * Task includes replace the configured ones, task excludes are added to them.
+     */
+    export function forTask(autotest: any, defaults: UploadFilter): UploadFilter {
+        const upload = autotest?.upload ?? {};
+        const include: string[] = Array.isArray(upload.include) && upload.include.length > 0 ? upload.include : defaults.include;
+        const exclude: string[] = Array.isArray(upload.exclude) ? [...defaults.exclude, ...upload.exclude] : defaults.exclude;
+        return { include, exclude };
+    }
+
+    /**
+     * Returns the pattern that excludes the path, `undefined` if the path is uploaded.
+     */
+    export function getExcludingPattern(filter: UploadFilter, path: string): string | undefined {
+        if (!filter.include.some(pattern => matchesGlob(pattern, path))) {
+            return 'not included';
+        }
+        return filter.exclude.find(pattern => matchesGlob(pattern, path));
+    }
+
+}
+
+/**
+ * Supports `**` for any number of directories, `*` and `?` within a path segment.
+ */
+export function matchesGlob(pattern: string, path: string): boolean {
+    return globToRegExp(pattern).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+const EXECUTABLE_SIGNATURES = [
+    [0x7f, 0x45, 0x4c, 0x46], // ELF
+    [0x4d, 0x5a], // Windows PE
+    [0xcf, 0xfa, 0xed, 0xfe], // Mach-O 64 bit
+    [0xce, 0xfa, 0xed, 0xfe], // Mach-O 32 bit
+];
+
+/**
+ * Detects compiled programs and core dumps, which usually have no extension to exclude them by.
+ */
+export function isExecutableContent(content: Uint8Array): boolean {
+    return EXECUTABLE_SIGNATURES.some(signature => signature.every((byte, index) => content[index] === byte));
+}
@@ -0,0 +1,21 @@
+export const LOCAL_AUTOTEST_PATH = '/services/local-autotest';
+
+export const LocalAutotestServer = Symbol('LocalAutotestServer');
+
+export interface LocalAutotestFile {
+    path: string;
+    // Base64 encoded file content
+    content: string;
+}
+
+/**
+ * Runs `.autotest2` tasks inside the IDE backend instead of the remote autotester queue.
+ * Jobs are started with `start` and polled with `getResult`, mirroring the `push.php` flow.
+ * Results have the same shape as the ones returned by `push.php?action=getResult`.
+ */
+export interface LocalAutotestServer {
+    start(task: any, files: LocalAutotestFile[]): Promise<number>;
+    getResult(jobID: number): Promise<any>;
+    // Stops the job before its remaining tests run, returns false if it had already finished
+    cancel(jobID: number): Promise<boolean>;
+}
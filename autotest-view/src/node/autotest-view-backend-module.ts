@@ -0,0 +1,12 @@
+import { ContainerModule } from 'inversify';
+import { ConnectionHandler, JsonRpcConnectionHandler } from '@theia/core/lib/common/messaging';
+import { LocalAutotestServer, LOCAL_AUTOTEST_PATH } from '../common/local-autotest-protocol';
+import { LocalAutotestServerImpl } from './local-autotest-server';
+
+export default new ContainerModule(bind => {
+    bind(LocalAutotestServerImpl).toSelf().inSingletonScope();
+    bind(LocalAutotestServer).toService(LocalAutotestServerImpl);
+    bind(ConnectionHandler).toDynamicValue(ctx =>
+        new JsonRpcConnectionHandler(LOCAL_AUTOTEST_PATH, () => ctx.container.get(LocalAutotestServer))
+    ).inSingletonScope();
+});
@@ -0,0 +1,392 @@
+import { injectable } from 'inversify';
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalAutotestServer, LocalAutotestFile } from '../common/local-autotest-protocol';
+
+interface LocalAutotestJob {
+    id: number;
+    finished: boolean;
+    canceled: boolean;
+    result: any;
+    // Compiler or test program currently running, killed when the job is canceled
+    process?: ChildProcess;
+}
+
+interface ProcessResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    signal: string | null;
+    timedOut: boolean;
+    duration: number;
+}
+
+// Same integer codes the remote autotester uses, see AutotestService mappings
+const PROGRAM_AWAITING_TESTS = 1;
+const PROGRAM_FINISHED_TESTING = 4;
+const PROGRAM_NO_SOURCES_FOUND = 6;
+const PROGRAM_CURRENTLY_TESTING = 7;
+const PROGRAM_REJECTED = 8;
+
+const TEST_SUCCESS = 1;
+const TEST_SYMBOL_NOT_FOUND = 2;
+const TEST_COMPILE_FAILED = 3;
+const TEST_EXECUTION_TIMEOUT = 4;
+const TEST_EXECUTION_CRASH = 5;
+const TEST_WRONG_OUTPUT = 6;
+
+@injectable()
+export class LocalAutotestServerImpl implements LocalAutotestServer {
+
+    private readonly DEFAULT_EXECUTION_TIMEOUT_S = 10;
+    private readonly COMPILE_TIMEOUT_S = 30;
+    private readonly MAX_OUTPUT_LENGTH = 1024 * 1024;
+    private readonly SOURCE_EXTENSIONS = ['.c', '.cpp', '.cc', '.cxx'];
+    private readonly CPP_EXTENSIONS = ['.cpp', '.cc', '.cxx'];
+    private readonly SOURCES_DIRNAME = 'src';
+    private readonly EXECUTABLE_NAME = 'program';
+    // `require` of the compile tool names the compiler, anything else would run on the IDE backend
+    private readonly ALLOWED_COMPILERS = ['gcc', 'g++', 'clang', 'clang++'];
+
+    private jobs = new Map<number, LocalAutotestJob>();
+    private nextJobID = 1;
+
+    public async start(task: any, files: LocalAutotestFile[]): Promise<number> {
+        const job: LocalAutotestJob = {
+            id: this.nextJobID++,
+            finished: false,
+            canceled: false,
+            result: {
+                status: PROGRAM_AWAITING_TESTS,
+                queue_items: 0,
+                test_results: {},
+            }
+        };
+        this.jobs.set(job.id, job);
+
+        this.runJob(job, task, files).catch(err => {
+            console.log(`Local autotest job ${job.id} failed: ${err}`);
+            job.result.status = PROGRAM_REJECTED;
+            job.finished = true;
+        });
+
+        return job.id;
+    }
+
+    public async getResult(jobID: number): Promise<any> {
+        const job = this.jobs.get(jobID);
+        if (job === undefined) {
+            throw new Error(`No local autotest job with id ${jobID}`);
+        }
+
+        if (job.finished) {
+            this.jobs.delete(jobID);
+        }
+
+        return job.result;
+    }
+
+    public async cancel(jobID: number): Promise<boolean> {
+        const job = this.jobs.get(jobID);
+        if (job === undefined || job.finished) {
+            this.jobs.delete(jobID);
+            return false;
+        }
+
+        job.canceled = true;
+        job.process?.kill('SIGKILL');
+        job.result.status = PROGRAM_REJECTED;
+        this.jobs.delete(jobID);
+        return true;
+    }
+
+    private async runJob(job: LocalAutotestJob, task: any, files: LocalAutotestFile[]) {
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'autotest-'));
+        try {
+            const sourcesDir = path.join(workDir, this.SOURCES_DIRNAME);
+            await this.writeFiles(sourcesDir, files);
+
+            const sources = files
+                .map(file => file.path)
+                .filter(filePath => this.SOURCE_EXTENSIONS.includes(path.extname(filePath)));
+
+            if (sources.length === 0) {
+                job.result.status = PROGRAM_NO_SOURCES_FOUND;
+                return;
+            }
+
+            job.result.status = PROGRAM_CURRENTLY_TESTING;
+
+            const tests: any[] = task.tests ?? [];
+            for (const test of tests) {
+                if (job.canceled) {
+                    return;
+                }
+                const testDir = path.join(workDir, `test-${test.id}`);
+                await fs.copy(sourcesDir, testDir);
+                job.result.test_results[test.id] = await this.runTest(job, testDir, task, test, sources);
+            }
+
+            job.result.status = PROGRAM_FINISHED_TESTING;
+            job.result.time = Math.floor(Date.now() / 1000);
+        } finally {
+            job.finished = true;
+            await fs.remove(workDir).catch(() => { });
+        }
+    }
+
+    private async writeFiles(dir: string, files: LocalAutotestFile[]) {
+        const writes = files.map(file => {
+            const filePath = path.join(dir, file.path);
+            if (!filePath.startsWith(dir + path.sep)) {
+                throw new Error(`Invalid file path ${file.path}`);
+            }
+            return fs.outputFile(filePath, Buffer.from(file.content, 'base64'));
+        });
+        await Promise.all(writes);
+    }
+
+    private async runTest(job: LocalAutotestJob, dir: string, task: any, test: any, sources: string[]): Promise<any> {
+        const startTime = Date.now();
+
+        if (test.patch) {
+            await this.patchSources(dir, sources, test.patch);
+        }
+
+        const executable = path.join(dir, this.EXECUTABLE_NAME);
+        const compile = await this.compile(job, dir, task, sources, executable);
+        const compileOutput = `${compile.stdout}${compile.stderr}`;
+
+        if (compile.exitCode !== 0) {
+            const status = this.isSymbolNotFound(compileOutput) ? TEST_SYMBOL_NOT_FOUND : TEST_COMPILE_FAILED;
+            return {
+                success: false,
+                status,
+                run_time: this.secondsSince(startTime),
+                tools: {
+                    compile: { status, output: compileOutput },
+                }
+            };
+        }
+
+        const compileResult = { status: TEST_SUCCESS, output: compileOutput };
+
+        // Tests without an execute section only check if the program compiles
+        if (test.execute === undefined) {
+            return {
+                success: true,
+                status: TEST_SUCCESS,
+                run_time: this.secondsSince(startTime),
+                tools: { compile: compileResult }
+            };
+        }
+
+        const execute = test.execute;
+        const timeout = execute.environment?.timeout
+            ?? task.tools?.execute?.environment?.timeout
+            ?? this.DEFAULT_EXECUTION_TIMEOUT_S;
+
+        const run = await this.exec(job, executable, [], dir, execute.input ?? '', timeout);
+        const status = this.resolveExecutionStatus(run, execute);
+
+        return {
+            success: status === TEST_SUCCESS,
+            status,
+            run_time: this.secondsSince(startTime),
+            tools: {
+                compile: compileResult,
+                execute: {
+                    status,
+                    output: run.stdout,
+                    stderr: run.stderr,
+                    exit_code: run.exitCode,
+                    signal: run.signal,
+                    duration: run.duration,
+                    expected: execute.expect ?? [],
+                }
+            }
+        };
+    }
+
+    private resolveExecutionStatus(run: ProcessResult, execute: any): number {
+        if (run.timedOut) {
+            return TEST_EXECUTION_TIMEOUT;
+        }
+
+        if (run.signal !== null) {
+            return TEST_EXECUTION_CRASH;
+        }
+
+        const expected: string[] = execute.expect ?? [];
+        if (expected.length === 0) {
+            return TEST_SUCCESS;
+        }
+
+        const matching: string = execute.matching ?? 'whitespace';
+        const matches = expected.some(expect => this.matchesExpected(run.stdout, expect, matching));
+
+        return matches ? TEST_SUCCESS : TEST_WRONG_OUTPUT;
+    }
+
+    private matchesExpected(output: string, expected: string, matching: string): boolean {
+        switch (matching) {
+            case 'exact':
+                return output === expected;
+            case 'substring':
+                return this.normalizeWhitespace(output).includes(this.normalizeWhitespace(expected));
+            case 'regex':
+                return new RegExp(expected).test(output);
+            default:
+                return this.normalizeWhitespace(output) === this.normalizeWhitespace(expected);
+        }
+    }
+
+    private normalizeWhitespace(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
+    }
+
+    private async patchSources(dir: string, sources: string[], patches: any[]) {
+        const contents = await Promise.all(sources.map(source => fs.readFile(path.join(dir, source), 'utf8')));
+        const mainIndex = contents.findIndex(content => /\bmain\s*\(/.test(content));
+        const targetIndex = mainIndex === -1 ? 0 : mainIndex;
+
+        let content = contents[targetIndex];
+        for (const patch of patches) {
+            content = this.applyPatch(content, patch);
+        }
+
+        await fs.writeFile(path.join(dir, sources[targetIndex]), content);
+    }
+
+    private applyPatch(source: string, patch: any): string {
+        const code: string = patch.code ?? '';
+
+        switch (patch.position) {
+            case 'main': {
+                // The student's main is kept under a different name so the test can replace it
+                const renamed = source.replace(/\bmain\s*\(/, '_main(');
+                const main = /\bmain\s*\(/.test(code) ? code : `int main() {\n${code}\nreturn 0;\n}`;
+                return `${renamed}\n${main}\n`;
+            }
+            case 'above_main': {
+                const match = /^[^\n]*\bmain\s*\(/m.exec(source);
+                if (match === null) {
+                    return `${source}\n${code}\n`;
+                }
+                return `${source.slice(0, match.index)}${code}\n${source.slice(match.index)}`;
+            }
+            case 'bottom_of_file':
+                return `${source}\n${code}\n`;
+            default:
+                return `${code}\n${source}`;
+        }
+    }
+
+    private compile(job: LocalAutotestJob, dir: string, task: any, sources: string[], executable: string): Promise<ProcessResult> {
+        const compileTool = task.tools?.compile ?? {};
+        const isCpp = sources.some(source => this.CPP_EXTENSIONS.includes(path.extname(source)))
+            || (task.languages ?? []).includes('C++');
+        const defaultCompiler = isCpp ? 'g++' : 'gcc';
+        let compiler: string = compileTool.require ?? defaultCompiler;
+        if (!this.ALLOWED_COMPILERS.includes(compiler)) {
+            console.log(`Local autotest job ${job.id} requires the unsupported compiler ${compiler}, using ${defaultCompiler}`);
+            compiler = defaultCompiler;
+        }
+        const features: string[] = compileTool.features ?? [];
+
+        const args = [
+            ...this.featuresToFlags(features),
+            ...sources.map(source => path.join(dir, source)),
+            '-o', executable,
+            '-lm',
+        ];
+
+        return this.exec(job, compiler, args, dir, '', this.COMPILE_TIMEOUT_S);
+    }
+
+    private featuresToFlags(features: string[]): string[] {
+        const flags: Record<string, string> = {
+            'optimize': '-O1',
+            'warn': '-Wall',
+            'pedantic': '-pedantic',
+            'debug': '-g',
+            'C89': '-std=c89',
+            'C99': '-std=c99',
+            'C11': '-std=c11',
+            'C++11': '-std=c++11',
+            'C++14': '-std=c++14',
+            'C++17': '-std=c++17',
+        };
+
+        return features
+            .map(feature => flags[feature])
+            .filter(flag => flag !== undefined);
+    }
+
+    private isSymbolNotFound(compileOutput: string): boolean {
+        return /undefined reference|was not declared|undeclared|has no member named/.test(compileOutput);
+    }
+
+    private exec(job: LocalAutotestJob, command: string, args: string[], cwd: string, input: string, timeoutS: number): Promise<ProcessResult> {
+        return new Promise(resolve => {
+            const startTime = Date.now();
+            if (job.canceled) {
+                resolve({ stdout: '', stderr: '', exitCode: null, signal: 'SIGKILL', timedOut: false, duration: 0 });
+                return;
+            }
+
+            const child = spawn(command, args, { cwd });
+            job.process = child;
+
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                child.kill('SIGKILL');
+            }, timeoutS * 1000);
+
+            const finish = (exitCode: number | null, signal: string | null) => {
+                clearTimeout(timer);
+                if (job.process === child) {
+                    job.process = undefined;
+                }
+                resolve({
+                    stdout,
+                    stderr,
+                    exitCode,
+                    signal: timedOut ? null : signal,
+                    timedOut,
+                    duration: this.secondsSince(startTime),
+                });
+            };
+
+            child.stdout.on('data', chunk => stdout = this.appendOutput(stdout, chunk));
+            child.stderr.on('data', chunk => stderr = this.appendOutput(stderr, chunk));
+            child.on('error', err => {
+                stderr += err.message;
+                finish(null, null);
+            });
+            child.on('close', (exitCode, signal) => finish(exitCode, signal));
+
+            // Programs that exit without reading their input close stdin early
+            child.stdin.on('error', () => { });
+            child.stdin.end(input);
+        });
+    }
+
+    private appendOutput(output: string, chunk: Buffer): string {
+        if (output.length >= this.MAX_OUTPUT_LENGTH) {
+            return output;
+        }
+        return (output + chunk.toString()).slice(0, this.MAX_OUTPUT_LENGTH);
+    }
+
+    private secondsSince(startTime: number): number {
+        return (Date.now() - startTime) / 1000;
+    }
+
+}
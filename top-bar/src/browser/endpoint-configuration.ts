@@ -0,0 +1,97 @@
+import { injectable, inject } from 'inversify';
+import { FrontendApplicationContribution } from '@theia/core/lib/browser';
+import { Endpoint, DEFAULT_ENDPOINTS } from '../common/endpoints';
+import { EndpointPreferences } from './endpoint-preferences';
+
+/**
+ * Content of `endpoints.json`, deployed next to the IDE's `index.html`.
+ */
+export interface DeploymentConfiguration {
+    baseURL?: string;
+    endpoints?: Partial<Record<Endpoint, string>>;
+}
+
+/**
+ * Builds the URLs of Zamger services. Preferences override the deployment configuration,
+ * which overrides the defaults, so one build can run against different instances.
+ */
+@injectable()
+export class EndpointConfiguration implements FrontendApplicationContribution {
+
+    private readonly DEPLOYMENT_CONFIGURATION_URL = 'endpoints.json';
+    // Startup waits for the deployment configuration, but not longer than this
+    private readonly DEPLOYMENT_CONFIGURATION_TIMEOUT_MS = 3000;
+
+    private deployment: DeploymentConfiguration = {};
+
+    private resolveReady: () => void;
+    /**
+     * Resolved once the deployment configuration was loaded or found missing, and the preferences are loaded.
+     */
+    readonly ready: Promise<void> = new Promise(resolve => this.resolveReady = resolve);
+
+    @inject(EndpointPreferences)
+    protected readonly preferences: EndpointPreferences;
+
+    async configure(): Promise<void> {
+        try {
+            this.deployment = await this.loadDeploymentConfiguration();
+        } catch (err) {
+            console.log(`Using the default endpoints, ${this.DEPLOYMENT_CONFIGURATION_URL} could not be loaded: ${err}`);
+        }
+        // The preferences override the deployment configuration, so URLs built before they load would be wrong
+        await this.preferences.ready;
+        this.resolveReady();
+    }
+
+    /**
+     * Returns the URL of the service, with the query appended if given.
+     */
+    getURL(endpoint: Endpoint, query?: string): string {
+        const url = `${this.getBaseURL()}${this.getPath(endpoint)}`;
+        if (query === undefined || query === '') {
+            return url;
+        }
+        return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+    }
+
+    getBaseURL(): string {
+        const baseURL = this.preferences['zamger.baseURL'] || this.deployment.baseURL || '';
+        return baseURL.replace(/\/+$/, '');
+    }
+
+    private getPath(endpoint: Endpoint): string {
+        const configured = this.preferences['zamger.endpoints']?.[endpoint];
+        if (typeof configured === 'string' && configured !== '') {
+            return configured;
+        }
+        return this.deployment.endpoints?.[endpoint] ?? DEFAULT_ENDPOINTS[endpoint];
+    }
+
+    private async loadDeploymentConfiguration(): Promise<DeploymentConfiguration> {
+        const abortController = new AbortController();
+        const timeout = window.setTimeout(() => abortController.abort(), this.DEPLOYMENT_CONFIGURATION_TIMEOUT_MS);
+
+        try {
+            const res = await fetch(this.DEPLOYMENT_CONFIGURATION_URL, { signal: abortController.signal });
+            if (res.status === 404) {
+                return {};
+            }
+            if (!res.ok) {
+                throw new Error(`${res.status} ${res.statusText}`);
+            }
+
+            const json = await res.json();
+            if (json === null || typeof json !== 'object') {
+                throw new Error('Expected an object');
+            }
+            return {
+                baseURL: typeof json.baseURL === 'string' ? json.baseURL : undefined,
+                endpoints: json.endpoints !== null && typeof json.endpoints === 'object' ? json.endpoints : undefined,
+            };
+        } finally {
+            window.clearTimeout(timeout);
+        }
+    }
+
+}
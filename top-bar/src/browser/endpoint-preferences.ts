@@ -0,0 +1,44 @@
+import { interfaces } from 'inversify';
+import {
+    createPreferenceProxy,
+    PreferenceContribution,
+    PreferenceProxy,
+    PreferenceSchema,
+    PreferenceService
+} from '@theia/core/lib/browser/preferences';
+
+export const endpointPreferenceSchema: PreferenceSchema = {
+    type: 'object',
+    properties: {
+        'zamger.baseURL': {
+            type: 'string',
+            default: '',
+            description: 'URL of the Zamger instance, e.g. `https://staging.example.edu`. Empty uses the deployment configuration, or the server the IDE is loaded from.'
+        },
+        'zamger.endpoints': {
+            type: 'object',
+            default: {},
+            description: 'Paths of individual services relative to the base URL, e.g. `{ "autotester": "/autotester/server/push.php" }`. Unlisted services use the deployment configuration or the defaults.'
+        }
+    }
+};
+
+export interface EndpointPreferenceConfiguration {
+    'zamger.baseURL': string;
+    'zamger.endpoints': { [endpoint: string]: string };
+}
+
+export const EndpointPreferences = Symbol('EndpointPreferences');
+export type EndpointPreferences = PreferenceProxy<EndpointPreferenceConfiguration>;
+
+export function createEndpointPreferences(preferences: PreferenceService): EndpointPreferences {
+    return createPreferenceProxy(preferences, endpointPreferenceSchema);
+}
+
+export function bindEndpointPreferences(bind: interfaces.Bind): void {
+    bind(EndpointPreferences).toDynamicValue(ctx => {
+        const preferences = ctx.container.get<PreferenceService>(PreferenceService);
+        return createEndpointPreferences(preferences);
+    }).inSingletonScope();
+    bind(PreferenceContribution).toConstantValue({ schema: endpointPreferenceSchema });
+}
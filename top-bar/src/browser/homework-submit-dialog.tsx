@@ -0,0 +1,160 @@
+import * as React from 'react';
+import { inject, injectable } from 'inversify';
+import { DialogProps, DialogMode, DialogError } from '@theia/core/lib/browser/dialogs';
+import { ReactDialog } from '@theia/core/lib/browser/dialogs/react-dialog';
+import { Homework, HomeworkReceipt } from './homework-submit';
+
+export interface HomeworkFileOption {
+    name: string;
+    required: boolean;
+    exists: boolean;
+}
+
+@injectable()
+export class HomeworkSubmitDialogProps extends DialogProps {
+    readonly homework: Homework;
+    readonly files: HomeworkFileOption[];
+    readonly lastReceipt?: HomeworkReceipt;
+}
+
+/**
+ * Lists the files of the homework directory with a required one preselected.
+ * Resolves to the name of the file to submit, `slanje_zadace.php` takes one file per task.
+ */
+@injectable()
+export class HomeworkSubmitDialog extends ReactDialog<string> {
+
+    private selected: string;
+
+    constructor(
+        @inject(HomeworkSubmitDialogProps) protected readonly props: HomeworkSubmitDialogProps
+    ) {
+        super({
+            title: props.title,
+        });
+        this.selected = props.files.find(file => file.required && file.exists)?.name ?? '';
+        this.appendCloseButton('Cancel');
+        this.appendAcceptButton('Submit');
+        this.update();
+    }
+
+    get value(): string {
+        return this.selected;
+    }
+
+    protected isValid(value: string, _mode: DialogMode): DialogError {
+        return value !== '' ? '' : 'Select the file to submit.';
+    }
+
+    private select(name: string) {
+        this.selected = name;
+        this.update();
+    }
+
+    protected render(): React.ReactNode {
+        return <div className='homework-submit-dialog'>
+            {this.renderDeadline()}
+            {this.renderFiles()}
+            {this.renderLastReceipt()}
+        </div>;
+    }
+
+    private renderDeadline(): React.ReactNode {
+        const deadline = this.props.homework.deadline;
+        if (deadline === undefined) {
+            return <p>No deadline</p>;
+        }
+        const overdue = deadline <= Date.now();
+        return <p className={overdue ? 'homework-overdue' : ''}>
+            Deadline: {new Date(deadline).toLocaleString()}{overdue && ' (passed, the submission may be rejected)'}
+        </p>;
+    }
+
+    private renderFiles(): React.ReactNode {
+        if (this.props.files.length === 0) {
+            return <p>There are no files in the homework directory.</p>;
+        }
+
+        return <ul className='homework-files'>
+            {this.props.files.map(file => <li key={file.name}>
+                <label className={file.exists ? '' : 'homework-file-missing'}>
+                    <input
+                        type='radio'
+                        name='homework-file'
+                        checked={this.selected === file.name}
+                        disabled={!file.exists}
+                        onChange={() => this.select(file.name)} />
+                    {file.name}
+                    {file.required && <span className='homework-file-note'>{file.exists ? 'required' : 'required, missing'}</span>}
+                </label>
+            </li>)}
+        </ul>;
+    }
+
+    private renderLastReceipt(): React.ReactNode {
+        const receipt = this.props.lastReceipt;
+        if (receipt === undefined) {
+            return undefined;
+        }
+        return <p className='homework-file-note'>
+            Last submitted {new Date(receipt.timestamp).toLocaleString()}
+            {receipt.submissionID !== undefined && ` (submission ${receipt.submissionID})`}.
+        </p>;
+    }
+
+}
+
+@injectable()
+export class HomeworkReceiptDialogProps extends DialogProps {
+    readonly receipt: HomeworkReceipt;
+}
+
+/**
+ * Shows the receipt of a submission, so the student can keep it as proof.
+ */
+@injectable()
+export class HomeworkReceiptDialog extends ReactDialog<void> {
+
+    constructor(
+        @inject(HomeworkReceiptDialogProps) protected readonly props: HomeworkReceiptDialogProps
+    ) {
+        super({
+            title: props.title,
+        });
+        this.appendAcceptButton('Ok');
+        this.update();
+    }
+
+    get value(): void {
+        return undefined;
+    }
+
+    protected render(): React.ReactNode {
+        const receipt = this.props.receipt;
+        return <table className='homework-receipt'>
+            <tbody>
+                <tr>
+                    <td>Homework</td>
+                    <td>{receipt.homeworkID}, task {receipt.task}</td>
+                </tr>
+                {receipt.submissionID !== undefined && <tr>
+                    <td>Submission</td>
+                    <td>{receipt.submissionID}</td>
+                </tr>}
+                <tr>
+                    <td>Received</td>
+                    <td>{new Date(receipt.timestamp).toLocaleString()}</td>
+                </tr>
+                <tr>
+                    <td>File</td>
+                    <td>{receipt.file}</td>
+                </tr>
+                {receipt.checksum !== undefined && <tr>
+                    <td>Checksum</td>
+                    <td className='homework-receipt-checksum'>{receipt.checksum}</td>
+                </tr>}
+            </tbody>
+        </table>;
+    }
+
+}
@@ -1,16 +1,58 @@
 import { injectable, inject } from 'inversify';
 import { WorkspaceService } from '@theia/workspace/lib/browser';
 import { FileService } from '@theia/filesystem/lib/browser/file-service';
-import { EditorManager } from '@theia/editor/lib/browser';
+import { StorageService } from '@theia/core/lib/browser/storage-service';
+import { ConfirmDialog } from '@theia/core/lib/browser';
+import { MessageService } from '@theia/core';
 import URI from '@theia/core/lib/common/uri';
+import { EndpointConfiguration } from './endpoint-configuration';
+import { HomeworkSubmitDialog, HomeworkReceiptDialog, HomeworkFileOption } from './homework-submit-dialog';
+
+/**
+ * A homework task, read from the `.zadaca` file Zamger puts in its directory.
+ */
+export interface Homework {
+    // `zadaca` and `zadatak` of `slanje_zadace.php`
+    id: number;
+    task: number;
+    dirURI: string;
+    // Unix timestamp in milliseconds
+    deadline?: number;
+    // Names of the files the task requires, relative to the directory
+    requiredFiles: string[];
+}
+
+/**
+ * Confirmation of a submission. `slanje_zadace.php` may not return the submission id and checksum,
+ * and the time of the response is used if it does not return the time of the submission.
+ */
+export interface HomeworkReceipt {
+    homeworkID: number;
+    task: number;
+    submissionID?: string;
+    // Unix timestamp in milliseconds
+    timestamp: number;
+    checksum?: string;
+    // Name of the submitted file, relative to the homework directory
+    file: string;
+}
+
+export class HomeworkSubmitError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'HomeworkSubmitError';
+        Object.setPrototypeOf(this, HomeworkSubmitError.prototype);
+    }
+
+}
 
 @injectable()
 export class HomeworkSubmit {
 
     private static readonly HOMEWORK_FILE_NAME = '.zadaca';
-
-    @inject(EditorManager)
-    protected readonly editorManager!: EditorManager;
+    private static readonly RECEIPTS_STORAGE_KEY = 'top-bar:homework-receipts';
+    private static readonly MAX_STORED_RECEIPTS = 100;
 
     @inject(WorkspaceService)
     protected readonly workspaceService: WorkspaceService;
@@ -18,32 +60,58 @@ export class HomeworkSubmit {
     @inject(FileService)
     protected readonly fileService: FileService;
 
-    public async submitHomework(dirURI: string) {
-        if(!this.isHomeworkAssignment(dirURI)) {
-            return;
-        }
-        
-        const homeworkFilePath = `${dirURI}/${HomeworkSubmit.HOMEWORK_FILE_NAME}`;
-        const homeworkFile = await this.fileService.read(new URI(homeworkFilePath));
-        const homework = JSON.parse(homeworkFile.value);
-
-        const editorWidget = this.editorManager.currentEditor;
-        let homeworkContentFilePath = `${dirURI}/`;
-        if (editorWidget) {
-            const names = editorWidget.getResourceUri()?.toString().split('/');
-            const index = names?.length? names.length-1:-1;
-            if(index!==-1 && names) {
-                homeworkContentFilePath+=names[index];
-            }
+    @inject(StorageService)
+    protected readonly storageService: StorageService;
+
+    @inject(MessageService)
+    protected readonly messageService: MessageService;
+
+    @inject(EndpointConfiguration)
+    protected readonly endpoints: EndpointConfiguration;
+
+    /**
+     * Lets the student pick the file to submit, submits it and shows the receipt.
+     * Returns `undefined` if the submission was canceled or failed.
+     */
+    public async submitHomework(dirURI: string): Promise<HomeworkReceipt | undefined> {
+        if (!await this.isHomeworkAssignment(dirURI)) {
+            return undefined;
         }
-        // filename query parameter is used by the service to determine the 
-        // file directory... the homeworkFilePath is sufficient...
-        const url = `/zamger/slanje_zadace.php?zadaca=${homework.id}&zadatak=${homework.zadatak}&filename=${homeworkContentFilePath}`;
 
-        await fetch(url, {
-            method: 'GET',
-            credentials: 'include'
-        });
+        let homework: Homework;
+        let files: HomeworkFileOption[];
+        try {
+            homework = await this.readHomework(dirURI);
+            files = await this.listFiles(homework);
+        } catch (err) {
+            console.log(`Could not read the homework in ${dirURI}: ${err}`);
+            this.messageService.error(`Could not read ${HomeworkSubmit.HOMEWORK_FILE_NAME}: ${err.message}`);
+            return undefined;
+        }
+
+        const receipts = await this.getReceipts();
+        const selected = await new HomeworkSubmitDialog({
+            title: `Submit Homework ${homework.id}, Task ${homework.task}`,
+            homework,
+            files,
+            lastReceipt: receipts.find(r => r.homeworkID === homework.id && r.task === homework.task),
+        }).open();
+        if (selected === undefined || !await this.confirmMissingFiles(homework, selected)) {
+            return undefined;
+        }
+
+        let receipt: HomeworkReceipt;
+        try {
+            receipt = await this.submit(homework, selected);
+        } catch (err) {
+            console.log(`Submitting homework ${homework.id}, task ${homework.task} failed: ${err}`);
+            this.messageService.error(`Homework was not submitted: ${err.message}`);
+            return undefined;
+        }
+
+        await this.storeReceipt(receipt);
+        new HomeworkReceiptDialog({ title: 'Homework Submitted', receipt }).open();
+        return receipt;
     }
 
     public async isHomeworkAssignment(dirURI: string): Promise<boolean> {
@@ -52,4 +120,127 @@ export class HomeworkSubmit {
         return this.workspaceService.containsSome([ homeworkFilePath ]);
     }
 
+    /**
+     * Receipts of previous submissions, the most recent first.
+     */
+    public async getReceipts(): Promise<HomeworkReceipt[]> {
+        return this.storageService.getData<HomeworkReceipt[]>(HomeworkSubmit.RECEIPTS_STORAGE_KEY, []);
+    }
+
+    private async storeReceipt(receipt: HomeworkReceipt) {
+        const receipts = await this.getReceipts();
+        receipts.unshift(receipt);
+        await this.storageService.setData(HomeworkSubmit.RECEIPTS_STORAGE_KEY, receipts.slice(0, HomeworkSubmit.MAX_STORED_RECEIPTS));
+    }
+
+    /**
+     * `.zadaca` holds the ids of the homework and task, and optionally the deadline and the required files.
+     */
+    private async readHomework(dirURI: string): Promise<Homework> {
+        const homeworkFile = await this.fileService.read(new URI(`${dirURI}/${HomeworkSubmit.HOMEWORK_FILE_NAME}`));
+        const json = JSON.parse(homeworkFile.value);
+
+        const id = Number(json.id);
+        const task = Number(json.zadatak);
+        if (isNaN(id) || isNaN(task)) {
+            throw new HomeworkSubmitError('Missing homework or task id');
+        }
+
+        return {
+            id,
+            task,
+            dirURI,
+            deadline: this.parseTimestamp(json.deadline),
+            requiredFiles: Array.isArray(json.files) ? json.files.filter((file: any) => typeof file === 'string') : [],
+        };
+    }
+
+    /**
+     * Files in the homework directory, without hidden ones like `.zadaca` and `.autotest2`.
+     * Required files that do not exist are listed too, so the dialog can point them out.
+     */
+    private async listFiles(homework: Homework): Promise<HomeworkFileOption[]> {
+        const dir = await this.fileService.resolve(new URI(homework.dirURI));
+        const names = (dir.children ?? [])
+            .filter(child => !child.isDirectory && !child.name.startsWith('.'))
+            .map(child => child.name);
+
+        const options: HomeworkFileOption[] = names.sort().map(name => ({
+            name,
+            required: homework.requiredFiles.includes(name),
+            exists: true,
+        }));
+        for (const name of homework.requiredFiles) {
+            if (!names.includes(name)) {
+                options.push({ name, required: true, exists: false });
+            }
+        }
+        return options;
+    }
+
+    private async confirmMissingFiles(homework: Homework, selected: string): Promise<boolean> {
+        const missing = homework.requiredFiles.filter(file => file !== selected);
+        if (missing.length === 0) {
+            return true;
+        }
+
+        const confirmed = await new ConfirmDialog({
+            title: 'Submit without required files?',
+            msg: `The task requires ${missing.join(', ')}, which will not be submitted.`,
+            ok: 'Submit',
+            cancel: 'Cancel',
+        }).open();
+        return confirmed === true;
+    }
+
+    /**
+     * The service reads the file from the disk the IDE runs on, so only its URI is sent.
+     * It also finds the homework directory from the `filename` parameter.
+     */
+    private async submit(homework: Homework, file: string): Promise<HomeworkReceipt> {
+        const filename = encodeURIComponent(`${homework.dirURI}/${file}`);
+        const url = this.endpoints.getURL('homeworkSubmit', `zadaca=${homework.id}&zadatak=${homework.task}&filename=${filename}`);
+
+        const res = await fetch(url, {
+            method: 'GET',
+            credentials: 'include'
+        });
+        const body = await res.text();
+
+        // The service does not always answer with JSON, only an explicit failure rejects the submission
+        let json: any;
+        try {
+            json = JSON.parse(body);
+        } catch (_) {
+            json = undefined;
+        }
+        if (!res.ok || json?.success === false) {
+            throw new HomeworkSubmitError(json?.message ?? `${res.status} ${res.statusText}`);
+        }
+
+        const data = json?.data ?? {};
+        return {
+            homeworkID: homework.id,
+            task: homework.task,
+            submissionID: data.id !== undefined && data.id !== null ? String(data.id) : undefined,
+            timestamp: this.parseTimestamp(data.timestamp) ?? Date.now(),
+            checksum: typeof data.checksum === 'string' ? data.checksum : undefined,
+            file,
+        };
+    }
+
+    /**
+     * Accepts Unix timestamps in seconds or milliseconds and date strings like `2020-11-20 23:59:00`.
+     */
+    private parseTimestamp(value: any): number | undefined {
+        if (typeof value === 'number' && value > 0) {
+            return value < 1e12 ? value * 1000 : value;
+        }
+        if (typeof value === 'string' && value !== '') {
+            const time = Date.parse(value.replace(' ', 'T'));
+            return isNaN(time) ? undefined : time;
+        }
+        return undefined;
+    }
+
 }
@@ -1,4 +1,5 @@
-import { injectable } from 'inversify';
+import { injectable, inject } from 'inversify';
+import { EndpointConfiguration } from './endpoint-configuration';
 
 export interface UserInfo {
     success: boolean;
@@ -12,8 +13,10 @@ export class SessionManager {
 
     private userInfo: UserInfo | undefined;
 
-    constructor() {
-        this.ping();
+    constructor(
+        @inject(EndpointConfiguration) private readonly endpoints: EndpointConfiguration,
+    ) {
+        this.endpoints.ready.then(() => this.ping());
     }
 
     async getUserInfo(): Promise<UserInfo> {
@@ -21,7 +24,8 @@ export class SessionManager {
             return this.userInfo;
         }
 
-        const res = await fetch('/services/refresh.php', {
+        await this.endpoints.ready;
+        const res = await fetch(this.endpoints.getURL('sessionRefresh'), {
             credentials: 'include',
         });
         const data = await res.json();
@@ -31,13 +35,13 @@ export class SessionManager {
     }
 
     private async ping() {
-        const res = await fetch('/zamger/ping.php');
+        const res = await fetch(this.endpoints.getURL('ping'));
         const data = await res.text();
 
         console.log(data);
 
         if(data.includes("ERROR")) {
-            window.location.href = '/';
+            window.location.href = `${this.endpoints.getBaseURL()}/`;
             return;
         }
 
@@ -7,6 +7,8 @@ import '../../src/browser/style/index.css';
 import { HomeworkSubmit } from './homework-submit';
 import { TaskRunner } from './task-runner';
 import { SessionManager } from './session-manager';
+import { EndpointConfiguration } from './endpoint-configuration';
+import { bindEndpointPreferences } from './endpoint-preferences';
 
 export default new ContainerModule(bind => {
     bindViewContribution(bind, TopBarContribution);
@@ -15,6 +17,9 @@ export default new ContainerModule(bind => {
     bind(HomeworkSubmit).toSelf().inSingletonScope();
     bind(TaskRunner).toSelf().inSingletonScope();
     bind(SessionManager).toSelf().inSingletonScope();
+    bindEndpointPreferences(bind);
+    bind(EndpointConfiguration).toSelf().inSingletonScope();
+    bind(FrontendApplicationContribution).toService(EndpointConfiguration);
     bind(WidgetFactory).toDynamicValue(ctx => ({
         id: TopBarWidget.ID,
         createWidget: () => ctx.container.get<TopBarWidget>(TopBarWidget)
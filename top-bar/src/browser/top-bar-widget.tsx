@@ -6,12 +6,14 @@ import { EditorManager, EditorWidget } from '@theia/editor/lib/browser';
 import URI from '@theia/core/lib/common/uri';
 import { HomeworkSubmit } from './homework-submit';
 import { TaskRunner } from './task-runner';
+import { EndpointConfiguration } from './endpoint-configuration';
 
 interface TopBarButtonProps {
     text: string;
     tooltip?: string;
     classNames?: string;
     iconClass?: string;
+    disabled?: boolean;
     onClick: Function
 }
 
@@ -23,6 +25,7 @@ export class TopBarWidget extends ReactWidget {
 
     private editorFileURI: URI | undefined;
     private isHomeworkAssignment: boolean = false;
+    private isSubmitting: boolean = false;
 
     @inject(MessageService)
     protected readonly messageService: MessageService;
@@ -36,6 +39,9 @@ export class TopBarWidget extends ReactWidget {
     @inject(TaskRunner)
     protected readonly taskRunner: TaskRunner;
 
+    @inject(EndpointConfiguration)
+    protected readonly endpoints: EndpointConfiguration;
+
     @postConstruct()
     protected async init(): Promise<void> {
         this.id = TopBarWidget.ID;
@@ -79,6 +85,7 @@ export class TopBarWidget extends ReactWidget {
         return <button
             className={`theia-button secondary ${props.classNames ?? ''}`}
             title={props.tooltip ?? props.text}
+            disabled={props.disabled}
             onClick={event => props.onClick(event)}>
             {props.iconClass && <i className={`button-icon ${props.iconClass}`} aria-hidden="true"></i>}
             {props.text}
@@ -103,20 +110,28 @@ export class TopBarWidget extends ReactWidget {
     private renderSubmitButton(): React.ReactNode {
         return this.renderButton({
             text: 'Submit',
-            tooltip: 'Submit current homework program',
-            iconClass: 'fa fa-envelope',
+            tooltip: 'Submit the files of the current homework',
+            iconClass: this.isSubmitting ? 'fa fa-spinner fa-pulse' : 'fa fa-envelope',
             classNames: this.isHomeworkAssignment ? '' : 'not-homework',
+            disabled: this.isSubmitting,
             onClick: () => this.handleSubmitButtonClick()
         });
     }
 
     private async handleSubmitButtonClick() {
-        if (this.editorFileURI === undefined) {
+        if (this.editorFileURI === undefined || this.isSubmitting) {
             return;
         }
 
         const dirURI = this.editorFileURI.parent.toString();
-        await this.homeworkSubmit.submitHomework(dirURI);
+        this.isSubmitting = true;
+        this.update();
+        try {
+            await this.homeworkSubmit.submitHomework(dirURI);
+        } finally {
+            this.isSubmitting = false;
+            this.update();
+        }
     }
 
     private renderLogoutButton(): React.ReactNode {
@@ -128,7 +143,7 @@ export class TopBarWidget extends ReactWidget {
     }
 
     private async handleLogoutButtonClick() {
-        window.location.href = '/index.php?logout';
+        window.location.href = this.endpoints.getURL('login', 'logout');
     }
 
 }
@@ -0,0 +1,21 @@
+/**
+ * Services of the Zamger installation the IDE talks to.
+ */
+export type Endpoint =
+    'assignments'
+    | 'autotester'
+    | 'homeworkSubmit'
+    | 'sessionRefresh'
+    | 'ping'
+    | 'login'
+    | 'uupGame';
+
+export const DEFAULT_ENDPOINTS: Record<Endpoint, string> = {
+    assignments: '/assignment/ws.php',
+    autotester: '/autotester/server/push.php',
+    homeworkSubmit: '/zamger/slanje_zadace.php',
+    sessionRefresh: '/services/refresh.php',
+    ping: '/zamger/ping.php',
+    login: '/index.php',
+    uupGame: '/services/uup_game.php',
+};
@@ -1,4 +1,5 @@
-import { injectable } from "inversify";
+import { injectable, inject } from "inversify";
+import { EndpointConfiguration } from "top-bar/lib/browser/endpoint-configuration";
 
 export interface Task {
     taskNumber: number;
@@ -104,10 +105,15 @@ export interface CourseInfo {
 @injectable()
 export class GameService {
     
-    private BASE_URL = "/services/uup_game.php?action="
+    @inject(EndpointConfiguration)
+    protected readonly endpoints: EndpointConfiguration;
+
+    private makeURL(action: string): string {
+        return this.endpoints.getURL('uupGame', `action=${action}`);
+    }
 
     public async getAssignments() : Promise<Assignment[]> {
-        let requestURL = this.BASE_URL +`getAssignments`;
+        let requestURL = this.makeURL(`getAssignments`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -117,7 +123,7 @@ export class GameService {
     }
 
     public async getPowerupTypes() : Promise<PowerupType[]> {
-        let requestURL = this.BASE_URL +`getPowerUpTypes`;
+        let requestURL = this.makeURL(`getPowerUpTypes`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -127,7 +133,7 @@ export class GameService {
     }
 
     public async getChallengeConfig() : Promise<ChallengeConfig> {
-        let requestURL = this.BASE_URL +`getChallengeConfig`;
+        let requestURL = this.makeURL(`getChallengeConfig`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -137,7 +143,7 @@ export class GameService {
     }
 
     public async getTaskCategories() : Promise<TaskCategory[]> {
-        let requestURL = this.BASE_URL +`getTaskCategories`;
+        let requestURL = this.makeURL(`getTaskCategories`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -174,7 +180,7 @@ export class GameService {
     }
 
     public async buyPowerup(powerupType: PowerupType) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `buyPowerUp&type_id=${powerupType.id}`;
+        let requestURL = this.makeURL(`buyPowerUp&type_id=${powerupType.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -187,7 +193,7 @@ export class GameService {
     }
 
     public async startAssignment(assignment: AssignmentDetails) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL +`startAssignment&assignment_id=${assignment.id}`;
+        let requestURL = this.makeURL(`startAssignment&assignment_id=${assignment.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -200,7 +206,7 @@ export class GameService {
     } 
 
     public async useHint(assignment: AssignmentDetails) : Promise<ServerResponse> {        
-        let requestURL = this.BASE_URL + `hint&assignment_id=${assignment.id}`;
+        let requestURL = this.makeURL(`hint&assignment_id=${assignment.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -213,7 +219,7 @@ export class GameService {
     }
 
     public async useSecondChance(assignment: AssignmentDetails, task: Task) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `secondChance&assignment_id=${assignment.id}`;
+        let requestURL = this.makeURL(`secondChance&assignment_id=${assignment.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -230,7 +236,7 @@ export class GameService {
     }
 
     public async switchTask(assignment: AssignmentDetails) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `swapTask&assignment_id=${assignment.id}`;
+        let requestURL = this.makeURL(`swapTask&assignment_id=${assignment.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -243,7 +249,7 @@ export class GameService {
     }
 
     public async turnInTask(assignment: AssignmentDetails, testData: {total_tests: number; passed_tests: number}) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `turnTaskIn&assignment_id=${assignment.id}`;
+        let requestURL = this.makeURL(`turnTaskIn&assignment_id=${assignment.id}`);
         let res = await fetch(requestURL, {
             method: "POST",
             credentials: "include",
@@ -257,7 +263,7 @@ export class GameService {
     }
 
     public async getSecondChanceAvailableTasks(assignment: AssignmentDetails, type_id: number) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL +`getAvailableTasks&assignment_id=${assignment.id}&type_id=${type_id}`;
+        let requestURL = this.makeURL(`getAvailableTasks&assignment_id=${assignment.id}&type_id=${type_id}`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -267,7 +273,7 @@ export class GameService {
     }
 
     public async getUsedHint(assignment_id : number, taskNumber: number) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `getUsedHint&assignment_id=${assignment_id}&task_number=${taskNumber}`;
+        let requestURL = this.makeURL(`getUsedHint&assignment_id=${assignment_id}&task_number=${taskNumber}`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include",
@@ -277,7 +283,7 @@ export class GameService {
     }
 
     public async getPreviousPoints(assignment_id : number, taskNumber: number) : Promise<ServerResponse> {
-        let requestURL = this.BASE_URL + `getTaskPreviousPoints&assignment_id=${assignment_id}&task_number=${taskNumber}`;
+        let requestURL = this.makeURL(`getTaskPreviousPoints&assignment_id=${assignment_id}&task_number=${taskNumber}`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include",
@@ -287,7 +293,7 @@ export class GameService {
     }
 
     public async getStudentData(assignments: Assignment[], powerupTypes: PowerupType[], taskRequirement: number) : Promise<StudentData> {
-        let requestURL = this.BASE_URL +`getStudentData`;
+        let requestURL = this.makeURL(`getStudentData`);
         let res = await fetch(requestURL, {
             method: "GET",
             credentials: "include"
@@ -15,6 +15,7 @@ import { AutotestService, AutotestEvent } from 'autotest-view/lib/browser/autote
 import { GameHelpDialog } from './game-help-dialogue';
 import { FileChangeType } from '@theia/filesystem/lib/common/files';
 import { MiniBrowserOpenHandler } from '@theia/mini-browser/lib/browser/mini-browser-open-handler';
+import { EndpointConfiguration } from 'top-bar/lib/browser/endpoint-configuration';
 
 
 interface GameInformationState {
@@ -62,6 +63,9 @@ export class UupGameViewWidget extends ReactWidget {
     @inject(EditorManager)
     protected readonly editorManager: EditorManager;
 
+    @inject(EndpointConfiguration)
+    protected readonly endpoints: EndpointConfiguration;
+
     private state: GameInformationState = {
         handlers: {},
         fileWatchers: {},
@@ -208,7 +212,7 @@ export class UupGameViewWidget extends ReactWidget {
 
     
     private async getStudentCoursesInfo(): Promise<CourseInfo[]> {
-        const url = '/assignment/ws.php?action=courses';
+        const url = this.endpoints.getURL('assignments', 'action=courses');
         const res = await fetch(url, {
             credentials: 'include'
         });
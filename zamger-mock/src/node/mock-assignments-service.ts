@@ -0,0 +1,92 @@
+import * as express from 'express';
+import { injectable } from 'inversify';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures, MockCourse, MockAssignment } from './mock-fixtures';
+import { MockService, MockHandler, MockRequestError, sendData, getQueryParam, getNumberParam } from './mock-service';
+
+/**
+ * `ws.php`: the courses, assignments, starter files and task texts of the Assignments view.
+ */
+@injectable()
+export class MockAssignmentsService implements MockService {
+
+    readonly handlers: Partial<Record<Endpoint, MockHandler>> = {
+        assignments: (req, res) => this.handle(req, res),
+    };
+
+    private courses: MockCourse[] = [];
+    private startedAt = Date.now();
+
+    reset(fixtures: MockFixtures) {
+        this.courses = fixtures.courses;
+        this.startedAt = Date.now();
+    }
+
+    private handle(req: express.Request, res: express.Response) {
+        const action = getQueryParam(req, 'action');
+        switch (action) {
+            case 'courses':
+                return sendData(res, this.courses.map(({ id, name, abbrev, external }) => ({ id, name, abbrev, external })));
+            case 'assignments':
+                return sendData(res, this.getCourse(req).tutorials.map(tutorial => ({
+                    name: tutorial.name,
+                    path: tutorial.path,
+                    items: tutorial.items.map(assignment => this.toListing(assignment)),
+                })));
+            case 'getFile':
+                return this.sendFile(req, res);
+            case 'getTaskText':
+                return sendData(res, this.getAssignment(req).description ?? null);
+            default:
+                throw new MockRequestError(`Unknown action ${action}`);
+        }
+    }
+
+    private toListing(assignment: MockAssignment): any {
+        return {
+            id: assignment.id,
+            name: assignment.name,
+            path: assignment.path,
+            files: assignment.files.map(({ filename, show, binary }) => ({ filename, show: show ?? false, binary: binary ?? false })),
+            deadline: assignment.deadlineInDays !== undefined
+                ? MockFixtures.toUnixDeadline(assignment.deadlineInDays, this.startedAt)
+                : undefined,
+            max_points: assignment.max_points,
+        };
+    }
+
+    private sendFile(req: express.Request, res: express.Response) {
+        const filename = getQueryParam(req, 'file');
+        const file = this.getAssignment(req).files.find(f => f.filename === filename);
+        if (file === undefined) {
+            throw new MockRequestError(`No file ${filename}`, 404);
+        }
+
+        if (file.binary) {
+            res.type('application/octet-stream').send(Buffer.from(file.content, 'base64'));
+        } else {
+            res.type('text/plain').send(file.content);
+        }
+    }
+
+    private getCourse(req: express.Request): MockCourse {
+        const courseID = getNumberParam(req, 'course');
+        const course = this.courses.find(c => c.id === courseID);
+        if (course === undefined) {
+            throw new MockRequestError(`No course ${courseID}`, 404);
+        }
+        return course;
+    }
+
+    private getAssignment(req: express.Request): MockAssignment {
+        const assignmentID = getNumberParam(req, 'task_direct');
+        for (const tutorial of this.getCourse(req).tutorials) {
+            const assignment = tutorial.items.find(a => a.id === assignmentID);
+            if (assignment !== undefined) {
+                return assignment;
+            }
+        }
+        throw new MockRequestError(`No assignment ${assignmentID}`, 404);
+    }
+
+}
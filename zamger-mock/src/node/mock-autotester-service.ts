@@ -0,0 +1,178 @@
+import * as express from 'express';
+import { injectable } from 'inversify';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures, MockAutotesterOptions } from './mock-fixtures';
+import { MockService, MockHandler, MockRequestError, sendData, getQueryParam, getNumberParam, getJSONField } from './mock-service';
+
+interface MockProgram {
+    id: number;
+    taskID: number;
+    name: string;
+    // Set once the files were uploaded, results are computed relative to it
+    submittedAt: number | undefined;
+    canceled: boolean;
+}
+
+// Same integer codes the remote autotester uses, see AutotestService mappings
+const PROGRAM_AWAITING_TESTS = 1;
+const PROGRAM_FINISHED_TESTING = 4;
+const PROGRAM_CURRENTLY_TESTING = 7;
+const PROGRAM_REJECTED = 8;
+
+const TEST_SUCCESS = 1;
+const TEST_WRONG_OUTPUT = 6;
+
+/**
+ * `push.php`: queues programs and reports them as tested after the configured delays,
+ * every test passing except the ones listed in the fixtures.
+ */
+@injectable()
+export class MockAutotesterService implements MockService {
+
+    readonly handlers: Partial<Record<Endpoint, MockHandler>> = {
+        autotester: (req, res) => this.handle(req, res),
+    };
+
+    private readonly STREAM_INTERVAL_MS = 500;
+
+    private options: MockAutotesterOptions = { queueMs: 0, testingMs: 0, failingTests: [] };
+    private tasks = new Map<number, any>();
+    private programs = new Map<number, MockProgram>();
+    private nextID = 1;
+
+    reset(fixtures: MockFixtures) {
+        this.options = fixtures.autotester;
+        this.tasks.clear();
+        this.programs.clear();
+        this.nextID = 1;
+    }
+
+    private handle(req: express.Request, res: express.Response) {
+        const action = getQueryParam(req, 'action');
+        switch (action) {
+            case 'setTask':
+                return sendData(res, this.setTask(getJSONField(req, 'task')));
+            case 'setProgram':
+                return sendData(res, this.setProgram(getJSONField(req, 'program')));
+            case 'setProgramFile':
+                this.getProgram(req).submittedAt = Date.now();
+                return sendData(res, true);
+            case 'getResult':
+                return sendData(res, this.getResult(this.getProgram(req)));
+            case 'cancelProgram':
+                return sendData(res, { dequeued: this.cancel(this.getProgram(req)) });
+            case 'streamResult':
+                return this.streamResult(req, res, this.getProgram(req));
+            default:
+                throw new MockRequestError(`Unknown action ${action}`);
+        }
+    }
+
+    private setTask(task: any): number {
+        const id = typeof task?.id === 'number' ? task.id : this.nextID++;
+        this.tasks.set(id, task);
+        return id;
+    }
+
+    private setProgram(program: any): number {
+        if (!this.tasks.has(program?.task)) {
+            throw new MockRequestError(`No task ${program?.task}`);
+        }
+
+        const id = typeof program.id === 'number' && this.programs.has(program.id) ? program.id : this.nextID++;
+        this.programs.set(id, { id, taskID: program.task, name: String(program.name), submittedAt: undefined, canceled: false });
+        return id;
+    }
+
+    private getProgram(req: express.Request): MockProgram {
+        const id = getNumberParam(req, 'id');
+        const program = this.programs.get(id);
+        if (program === undefined) {
+            throw new MockRequestError(`No program ${id}`, 404);
+        }
+        return program;
+    }
+
+    private cancel(program: MockProgram): boolean {
+        if (this.isFinished(this.getResult(program))) {
+            return false;
+        }
+        program.canceled = true;
+        return true;
+    }
+
+    private getResult(program: MockProgram): any {
+        if (program.canceled) {
+            return { status: PROGRAM_REJECTED, queue_items: 0, test_results: {} };
+        }
+
+        const elapsed = program.submittedAt === undefined ? -1 : Date.now() - program.submittedAt;
+        if (elapsed < this.options.queueMs) {
+            return { status: PROGRAM_AWAITING_TESTS, queue_items: 1, test_results: {} };
+        }
+        if (elapsed < this.options.queueMs + this.options.testingMs) {
+            return { status: PROGRAM_CURRENTLY_TESTING, queue_items: 0, test_results: {} };
+        }
+
+        const tests: any[] = this.tasks.get(program.taskID)?.tests ?? [];
+        const testResults: Record<number, any> = {};
+        for (const test of tests) {
+            const success = !this.options.failingTests.includes(test.id);
+            const status = success ? TEST_SUCCESS : TEST_WRONG_OUTPUT;
+            testResults[test.id] = {
+                success,
+                status,
+                run_time: 0.01,
+                tools: {
+                    compile: { status: TEST_SUCCESS, output: '' },
+                    execute: {
+                        status,
+                        output: success ? (test.execute?.expect?.[0] ?? '') : '',
+                        expected: test.execute?.expect ?? [],
+                    },
+                }
+            };
+        }
+
+        return {
+            status: PROGRAM_FINISHED_TESTING,
+            queue_items: 0,
+            test_results: testResults,
+            time: Math.floor((program.submittedAt! + this.options.queueMs + this.options.testingMs) / 1000),
+        };
+    }
+
+    private isFinished(result: any): boolean {
+        return result.status === PROGRAM_FINISHED_TESTING || result.status === PROGRAM_REJECTED;
+    }
+
+    /**
+     * Server-sent events with the result whenever it changes, until it is final.
+     */
+    private streamResult(req: express.Request, res: express.Response, program: MockProgram) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+
+        let lastEvent = '';
+        const send = () => {
+            const result = this.getResult(program);
+            const event = JSON.stringify({ data: result });
+            if (event !== lastEvent) {
+                res.write(`data: ${event}\n\n`);
+                lastEvent = event;
+            }
+            if (this.isFinished(result)) {
+                clearInterval(timer);
+                res.end();
+            }
+        };
+
+        const timer = setInterval(send, this.STREAM_INTERVAL_MS);
+        req.on('close', () => clearInterval(timer));
+        send();
+    }
+
+}
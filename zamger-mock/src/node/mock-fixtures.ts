@@ -0,0 +1,108 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * Data the mock services start from, see `fixtures/default.json`.
+ * Field names follow the responses of the real services where they are passed through.
+ */
+export interface MockFixtures {
+    user: MockUser;
+    courses: MockCourse[];
+    homework: MockHomework[];
+    autotester: MockAutotesterOptions;
+    uupGame: MockUupGameFixtures;
+}
+
+export interface MockUser {
+    username: string;
+    sid: string;
+    role: string;
+}
+
+export interface MockCourse {
+    id: number;
+    name: string;
+    abbrev: string;
+    external: boolean;
+    tutorials: MockTutorial[];
+}
+
+export interface MockTutorial {
+    name: string;
+    path: string;
+    items: MockAssignment[];
+}
+
+export interface MockAssignment {
+    id: number;
+    name: string;
+    path: string;
+    // Relative to the start of the server, so seeded deadlines do not expire
+    deadlineInDays?: number;
+    max_points?: number;
+    description?: { format: 'html' | 'markdown', text: string };
+    files: MockFile[];
+}
+
+export interface MockFile {
+    filename: string;
+    show?: boolean;
+    binary?: boolean;
+    // Base64 encoded if the file is binary
+    content: string;
+}
+
+export interface MockHomework {
+    id: number;
+    zadatak: number;
+    name: string;
+    deadlineInDays: number;
+}
+
+export interface MockAutotesterOptions {
+    // Time a program spends in the queue and in testing before its results are final
+    queueMs: number;
+    testingMs: number;
+    // Ids of tests that fail with wrong output, every other test passes
+    failingTests: number[];
+}
+
+export interface MockUupGameFixtures {
+    student: string;
+    tokens: number;
+    assignments: { id: number, name: string, path: string, active: boolean, points: number, challenge_pts: number }[];
+    powerupTypes: { id: number, name: string, price: number }[];
+    challengeConfig: {
+        enoughPoints: number,
+        noPowerups: number,
+        maxPoints: number,
+        maxPointsNoPowerups: number,
+        tasksRequired: number
+    };
+    taskCategories: { id: number, name: string, points_percent: number, tokens: number, tasks_per_category: number }[];
+    // Tasks with the same number are alternatives the Switch Task power-up picks from
+    tasks: { task_number: number, task_name: string, hint: string }[];
+}
+
+export namespace MockFixtures {
+
+    export const DEFAULT_PATH = path.resolve(__dirname, '../../fixtures/default.json');
+
+    export async function load(fixturesPath: string = DEFAULT_PATH): Promise<MockFixtures> {
+        const fixtures = await fs.readJson(fixturesPath);
+        if (fixtures === null || typeof fixtures !== 'object' || !Array.isArray(fixtures.courses)) {
+            throw new Error(`${fixturesPath} is not a fixtures file`);
+        }
+        return fixtures;
+    }
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    /**
+     * Converts a deadline relative to now to the Unix timestamp in seconds `ws.php` returns.
+     */
+    export function toUnixDeadline(deadlineInDays: number, now: number = Date.now()): number {
+        return Math.floor((now + deadlineInDays * DAY_MS) / 1000);
+    }
+
+}
@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import * as express from 'express';
+import * as fs from 'fs-extra';
+import { injectable } from 'inversify';
+import { FileUri } from '@theia/core/lib/node/file-uri';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures, MockHomework } from './mock-fixtures';
+import { MockService, MockHandler, MockRequestError, sendData, getQueryParam, getNumberParam } from './mock-service';
+
+interface MockSubmission {
+    id: number;
+    zadaca: number;
+    zadatak: number;
+    filename: string;
+    timestamp: number;
+    checksum: string;
+}
+
+/**
+ * `slanje_zadace.php`: accepts homework submissions and answers with a receipt.
+ * Like the real service it reads the submitted files from the disk the IDE runs on.
+ */
+@injectable()
+export class MockHomeworkService implements MockService {
+
+    readonly handlers: Partial<Record<Endpoint, MockHandler>> = {
+        homeworkSubmit: (req, res) => this.submit(req, res),
+    };
+
+    private homework: MockHomework[] = [];
+    private submissions: MockSubmission[] = [];
+    private startedAt = Date.now();
+
+    reset(fixtures: MockFixtures) {
+        this.homework = fixtures.homework;
+        this.submissions = [];
+        this.startedAt = Date.now();
+    }
+
+    private async submit(req: express.Request, res: express.Response) {
+        const zadaca = getNumberParam(req, 'zadaca');
+        const zadatak = getNumberParam(req, 'zadatak');
+        const homework = this.homework.find(h => h.id === zadaca && h.zadatak === zadatak);
+        if (homework === undefined) {
+            throw new MockRequestError(`No homework ${zadaca}, task ${zadatak}`, 404);
+        }
+        if (Date.now() > MockFixtures.toUnixDeadline(homework.deadlineInDays, this.startedAt) * 1000) {
+            throw new MockRequestError(`The deadline for ${homework.name} has passed`, 403);
+        }
+
+        const filename = this.getFilename(req);
+        const hash = crypto.createHash('sha256');
+        try {
+            hash.update(await fs.readFile(FileUri.fsPath(filename)));
+        } catch (err) {
+            throw new MockRequestError(`Could not read ${filename}: ${err.message}`);
+        }
+
+        const submission: MockSubmission = {
+            id: this.submissions.length + 1,
+            zadaca,
+            zadatak,
+            filename,
+            timestamp: Math.floor(Date.now() / 1000),
+            checksum: hash.digest('hex'),
+        };
+        this.submissions.push(submission);
+        sendData(res, submission);
+    }
+
+    /**
+     * Like the real service, takes one `filename`: the URI of the submitted file in the homework directory.
+     */
+    private getFilename(req: express.Request): string {
+        const filename = getQueryParam(req, 'filename');
+        if (filename === undefined || filename === '') {
+            throw new MockRequestError('Missing parameter filename');
+        }
+        return filename;
+    }
+
+}
@@ -0,0 +1,64 @@
+import * as express from 'express';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures } from './mock-fixtures';
+
+export const MockService = Symbol('MockService');
+
+export type MockHandler = (req: express.Request, res: express.Response) => void | Promise<void>;
+
+/**
+ * Mocks one or more Zamger services, which are served at their default paths while the mock is enabled.
+ */
+export interface MockService {
+    readonly handlers: Partial<Record<Endpoint, MockHandler>>;
+    // Drops the state of previous requests and starts over from the fixtures
+    reset(fixtures: MockFixtures): void;
+}
+
+/**
+ * Thrown by handlers for requests the real service would reject.
+ */
+export class MockRequestError extends Error {
+
+    constructor(
+        message: string,
+        readonly status: number = 400,
+    ) {
+        super(message);
+        this.name = 'MockRequestError';
+        Object.setPrototypeOf(this, MockRequestError.prototype);
+    }
+
+}
+
+export function sendData(res: express.Response, data: any) {
+    res.json({ success: true, data });
+}
+
+export function getQueryParam(req: express.Request, name: string): string | undefined {
+    const value = req.query[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+export function getNumberParam(req: express.Request, name: string): number {
+    const value = Number(getQueryParam(req, name));
+    if (isNaN(value)) {
+        throw new MockRequestError(`Missing or invalid parameter ${name}`);
+    }
+    return value;
+}
+
+/**
+ * Form fields like `task` and `program` of `push.php` carry JSON.
+ */
+export function getJSONField(req: express.Request, name: string): any {
+    const value = req.body?.[name];
+    if (typeof value !== 'string') {
+        throw new MockRequestError(`Missing field ${name}`);
+    }
+    try {
+        return JSON.parse(value);
+    } catch (_) {
+        throw new MockRequestError(`Field ${name} is not valid JSON`);
+    }
+}
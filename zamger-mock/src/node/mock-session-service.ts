@@ -0,0 +1,38 @@
+import * as express from 'express';
+import { injectable } from 'inversify';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures, MockUser } from './mock-fixtures';
+import { MockService, MockHandler } from './mock-service';
+
+/**
+ * `refresh.php`, `ping.php` and `index.php`: the session of the seeded user, which never expires.
+ */
+@injectable()
+export class MockSessionService implements MockService {
+
+    readonly handlers: Partial<Record<Endpoint, MockHandler>> = {
+        sessionRefresh: (_req, res) => this.refresh(res),
+        ping: (_req, res) => { res.type('text/plain').send('OK'); },
+        login: (req, res) => this.login(req, res),
+    };
+
+    private user: MockUser | undefined;
+
+    reset(fixtures: MockFixtures) {
+        this.user = fixtures.user;
+    }
+
+    private refresh(res: express.Response) {
+        res.json({ success: true, ...this.user });
+    }
+
+    private login(req: express.Request, res: express.Response) {
+        // Logging out returns to the IDE, the mock has no login page
+        if (req.query.logout !== undefined) {
+            res.redirect('/');
+            return;
+        }
+        res.type('text/plain').send(`Logged in as ${this.user?.username}`);
+    }
+
+}
@@ -0,0 +1,327 @@
+import * as express from 'express';
+import { injectable } from 'inversify';
+import { Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures, MockUupGameFixtures } from './mock-fixtures';
+import { MockService, MockHandler, MockRequestError, sendData, getQueryParam, getNumberParam } from './mock-service';
+
+type MockTask = MockUupGameFixtures['tasks'][number];
+
+interface MockPowerup {
+    type_id: number;
+    used: boolean;
+    assignment_id: number | null;
+    task_number: number | null;
+}
+
+interface MockTurnedInTask {
+    task_number: number;
+    points: number;
+    fullyFinished: boolean;
+    secondChanceUsed: boolean;
+}
+
+interface MockAssignmentProgress {
+    assignment_id: number;
+    status: 'In Progress' | 'Completed';
+    currentTask: MockTask;
+    turnedIn: MockTurnedInTask[];
+    // Tasks whose hint was bought, it stays visible when the student returns to them
+    hints: number[];
+}
+
+/**
+ * `uup_game.php`: the game of the seeded student, with tokens, power-ups and task progress kept in memory.
+ */
+@injectable()
+export class MockUupGameService implements MockService {
+
+    readonly handlers: Partial<Record<Endpoint, MockHandler>> = {
+        uupGame: (req, res) => this.handle(req, res),
+    };
+
+    private game: MockUupGameFixtures;
+    private tokens = 0;
+    private powerups: MockPowerup[] = [];
+    private progress: MockAssignmentProgress[] = [];
+
+    reset(fixtures: MockFixtures) {
+        this.game = fixtures.uupGame;
+        this.tokens = this.game.tokens;
+        this.powerups = [];
+        this.progress = [];
+    }
+
+    private handle(req: express.Request, res: express.Response) {
+        const action = getQueryParam(req, 'action');
+        try {
+            this.handleAction(action, req, res);
+        } catch (err) {
+            if (!(err instanceof MockRequestError)) {
+                throw err;
+            }
+            // Rejected game actions are answered with a reason, not an HTTP error
+            res.json({ success: false, data: { reason: err.message } });
+        }
+    }
+
+    private handleAction(action: string | undefined, req: express.Request, res: express.Response) {
+        switch (action) {
+            case 'check':
+                return res.json({ success: true });
+            case 'getAssignments':
+                return sendData(res, this.game.assignments);
+            case 'getPowerUpTypes':
+                return sendData(res, this.game.powerupTypes);
+            case 'getChallengeConfig':
+                return sendData(res, this.game.challengeConfig);
+            case 'getTaskCategories':
+                return sendData(res, this.game.taskCategories);
+            case 'getStudentData':
+                return sendData(res, this.getStudentData());
+            case 'buyPowerUp':
+                return sendData(res, this.buyPowerup(getNumberParam(req, 'type_id')));
+            case 'startAssignment':
+                return sendData(res, this.startAssignment(getNumberParam(req, 'assignment_id')));
+            case 'hint':
+                return sendData(res, this.useHint(this.getProgress(req)));
+            case 'secondChance':
+                return sendData(res, this.useSecondChance(this.getProgress(req), Number(req.body?.task_number)));
+            case 'swapTask':
+                return sendData(res, this.swapTask(this.getProgress(req)));
+            case 'turnTaskIn':
+                return sendData(res, this.turnTaskIn(this.getProgress(req), req.body ?? {}));
+            case 'getAvailableTasks':
+                return sendData(res, this.getSecondChanceTasks(this.getProgress(req)).map(task => this.toTaskData(task)));
+            case 'getUsedHint':
+                return sendData(res, this.getUsedHint(this.getProgress(req), getNumberParam(req, 'task_number')));
+            case 'getTaskPreviousPoints':
+                return sendData(res, { points: this.getTurnedInTask(this.getProgress(req), getNumberParam(req, 'task_number')).points });
+            default:
+                throw new MockRequestError(`Unknown action ${action}`);
+        }
+    }
+
+    private getStudentData(): any {
+        return {
+            student: this.game.student,
+            tokens: this.tokens,
+            powerups: this.powerups,
+            assignmentProgress: this.progress.map(p => ({ assignment_id: p.assignment_id, status: p.status })),
+            currentTasks: this.progress
+                .filter(p => p.status === 'In Progress')
+                .map(p => ({ assignment_id: p.assignment_id, ...this.toTaskData(p.currentTask) })),
+            assignmentPoints: this.progress.map(p => ({
+                assignment_id: p.assignment_id,
+                points: p.turnedIn.reduce((sum, task) => sum + task.points, 0),
+            })),
+            // PHP returns the counts as strings
+            completedTasks: this.progress.map(p => ({
+                assignment_id: p.assignment_id,
+                completed: String(p.turnedIn.filter(task => task.fullyFinished).length),
+            })),
+            turnedInTasks: this.progress.map(p => ({ assignment_id: p.assignment_id, turned_in: String(p.turnedIn.length) })),
+        };
+    }
+
+    private buyPowerup(typeID: number): any {
+        const type = this.game.powerupTypes.find(t => t.id === typeID);
+        if (type === undefined) {
+            throw new MockRequestError(`No power-up type ${typeID}`);
+        }
+        if (this.tokens < type.price) {
+            throw new MockRequestError('Not enough tokens');
+        }
+
+        this.tokens -= type.price;
+        this.powerups.push({ type_id: type.id, used: false, assignment_id: null, task_number: null });
+        return { message: `Bought ${type.name}`, powerupType: type.name, price: type.price, tokens: this.tokens };
+    }
+
+    private startAssignment(assignmentID: number): any {
+        if (!this.game.assignments.some(a => a.id === assignmentID && a.active)) {
+            throw new MockRequestError(`No active assignment ${assignmentID}`);
+        }
+        if (this.progress.some(p => p.assignment_id === assignmentID)) {
+            throw new MockRequestError('Assignment already started');
+        }
+
+        const progress: MockAssignmentProgress = {
+            assignment_id: assignmentID,
+            status: 'In Progress',
+            currentTask: this.getTaskVariants(1)[0],
+            turnedIn: [],
+            hints: [],
+        };
+        this.progress.push(progress);
+        return { message: 'Assignment started', taskData: this.toTaskData(progress.currentTask) };
+    }
+
+    private useHint(progress: MockAssignmentProgress): any {
+        const taskNumber = this.getCurrentTaskNumber(progress);
+        if (progress.hints.includes(taskNumber)) {
+            throw new MockRequestError('Hint already used on this task');
+        }
+
+        this.usePowerup('Hint', progress, taskNumber);
+        progress.hints.push(taskNumber);
+        return { message: 'Hint used', hint: progress.currentTask.hint, tokens: this.tokens };
+    }
+
+    private getUsedHint(progress: MockAssignmentProgress, taskNumber: number): any {
+        if (!progress.hints.includes(taskNumber)) {
+            throw new MockRequestError('No hint used on this task');
+        }
+        const task = progress.currentTask.task_number === taskNumber ? progress.currentTask : this.getTaskVariants(taskNumber)[0];
+        return { hint: task.hint };
+    }
+
+    private useSecondChance(progress: MockAssignmentProgress, taskNumber: number): any {
+        const task = this.getSecondChanceTasks(progress).find(t => t.task_number === taskNumber);
+        if (task === undefined) {
+            throw new MockRequestError(`Second Chance is not available for task ${taskNumber}`);
+        }
+
+        this.usePowerup('Second Chance', progress, taskNumber);
+        const turnedIn = this.getTurnedInTask(progress, taskNumber);
+        turnedIn.secondChanceUsed = true;
+        progress.currentTask = task;
+        progress.status = 'In Progress';
+        return {
+            message: 'Second Chance used',
+            data: { ...this.toTaskData(task), previous_points: turnedIn.points },
+        };
+    }
+
+    private swapTask(progress: MockAssignmentProgress): any {
+        const taskNumber = this.getCurrentTaskNumber(progress);
+        const variants = this.getTaskVariants(taskNumber);
+        if (variants.length < 2) {
+            throw new MockRequestError('There is no other task to switch to');
+        }
+
+        this.usePowerup('Switch Task', progress, taskNumber);
+        progress.currentTask = variants[(variants.indexOf(progress.currentTask) + 1) % variants.length];
+        return { message: 'Task switched', data: { taskData: this.toTaskData(progress.currentTask) } };
+    }
+
+    private turnTaskIn(progress: MockAssignmentProgress, testData: any): any {
+        const taskNumber = this.getCurrentTaskNumber(progress);
+        const total = Number(testData.total_tests);
+        const passed = Number(testData.passed_tests);
+        if (!(total > 0) || !(passed >= 0) || passed > total) {
+            throw new MockRequestError('Invalid test results');
+        }
+
+        const assignment = this.game.assignments.find(a => a.id === progress.assignment_id)!;
+        const category = this.getTaskCategory(taskNumber);
+        const fullyFinished = passed === total;
+        const points = assignment.points * category.points_percent / 100 / category.tasks_per_category * passed / total;
+        const tokens = fullyFinished ? category.tokens : 0;
+        this.tokens += tokens;
+
+        const previous = progress.turnedIn.find(task => task.task_number === taskNumber);
+        if (previous !== undefined) {
+            previous.points = points;
+            previous.fullyFinished = fullyFinished;
+        } else {
+            progress.turnedIn.push({ task_number: taskNumber, points, fullyFinished, secondChanceUsed: false });
+        }
+
+        const nextTask = this.getNextTask(progress);
+        const assignmentDone = nextTask === undefined;
+        if (nextTask !== undefined) {
+            progress.currentTask = nextTask;
+        } else {
+            progress.status = 'Completed';
+        }
+
+        return {
+            message: `Task ${taskNumber} turned in`,
+            data: {
+                taskData: nextTask !== undefined ? this.toTaskData(nextTask) : { task_name: '', task_number: -1 },
+                points,
+                tokens,
+                additionalTokens: {},
+                assignmentDone,
+            }
+        };
+    }
+
+    /**
+     * Turned in tasks that did not pass every test, each can be returned to once.
+     */
+    private getSecondChanceTasks(progress: MockAssignmentProgress): MockTask[] {
+        return progress.turnedIn
+            .filter(task => !task.fullyFinished && !task.secondChanceUsed)
+            .map(task => this.getTaskVariants(task.task_number)[0]);
+    }
+
+    private getNextTask(progress: MockAssignmentProgress): MockTask | undefined {
+        const taskCount = this.game.taskCategories.reduce((sum, category) => sum + category.tasks_per_category, 0);
+        for (let taskNumber = 1; taskNumber <= taskCount; taskNumber++) {
+            if (!progress.turnedIn.some(task => task.task_number === taskNumber)) {
+                return this.getTaskVariants(taskNumber)[0];
+            }
+        }
+        return undefined;
+    }
+
+    private getTaskCategory(taskNumber: number): MockUupGameFixtures['taskCategories'][number] {
+        let lastTaskNumber = 0;
+        for (const category of this.game.taskCategories) {
+            lastTaskNumber += category.tasks_per_category;
+            if (taskNumber <= lastTaskNumber) {
+                return category;
+            }
+        }
+        throw new MockRequestError(`Task ${taskNumber} is not in any category`);
+    }
+
+    private getTaskVariants(taskNumber: number): MockTask[] {
+        const variants = this.game.tasks.filter(task => task.task_number === taskNumber);
+        if (variants.length === 0) {
+            throw new MockRequestError(`The fixtures have no task ${taskNumber}`);
+        }
+        return variants;
+    }
+
+    private getTurnedInTask(progress: MockAssignmentProgress, taskNumber: number): MockTurnedInTask {
+        const task = progress.turnedIn.find(t => t.task_number === taskNumber);
+        if (task === undefined) {
+            throw new MockRequestError(`Task ${taskNumber} was not turned in`);
+        }
+        return task;
+    }
+
+    private getCurrentTaskNumber(progress: MockAssignmentProgress): number {
+        if (progress.status !== 'In Progress') {
+            throw new MockRequestError('Assignment already completed');
+        }
+        return progress.currentTask.task_number;
+    }
+
+    private usePowerup(name: string, progress: MockAssignmentProgress, taskNumber: number) {
+        const type = this.game.powerupTypes.find(t => t.name === name);
+        const powerup = this.powerups.find(p => p.type_id === type?.id && !p.used);
+        if (powerup === undefined) {
+            throw new MockRequestError(`You have no unused ${name} power-up`);
+        }
+        powerup.used = true;
+        powerup.assignment_id = progress.assignment_id;
+        powerup.task_number = taskNumber;
+    }
+
+    private getProgress(req: express.Request): MockAssignmentProgress {
+        const assignmentID = getNumberParam(req, 'assignment_id');
+        const progress = this.progress.find(p => p.assignment_id === assignmentID);
+        if (progress === undefined) {
+            throw new MockRequestError(`Assignment ${assignmentID} was not started`);
+        }
+        return progress;
+    }
+
+    private toTaskData(task: MockTask): { task_name: string, task_number: number } {
+        return { task_name: task.task_name, task_number: task.task_number };
+    }
+
+}
@@ -0,0 +1,31 @@
+import { ContainerModule } from 'inversify';
+import { bindContributionProvider } from '@theia/core';
+import { BackendApplicationContribution } from '@theia/core/lib/node';
+import { CliContribution } from '@theia/core/lib/node/cli';
+import { MockService } from './mock-service';
+import { MockAssignmentsService } from './mock-assignments-service';
+import { MockAutotesterService } from './mock-autotester-service';
+import { MockHomeworkService } from './mock-homework-service';
+import { MockSessionService } from './mock-session-service';
+import { MockUupGameService } from './mock-uup-game-service';
+import { ZamgerMockCliContribution } from './zamger-mock-cli-contribution';
+import { ZamgerMockContribution } from './zamger-mock-contribution';
+
+export default new ContainerModule(bind => {
+    bind(ZamgerMockCliContribution).toSelf().inSingletonScope();
+    bind(CliContribution).toService(ZamgerMockCliContribution);
+    bind(ZamgerMockContribution).toSelf().inSingletonScope();
+    bind(BackendApplicationContribution).toService(ZamgerMockContribution);
+
+    bindContributionProvider(bind, MockService);
+    bind(MockAssignmentsService).toSelf().inSingletonScope();
+    bind(MockService).toService(MockAssignmentsService);
+    bind(MockAutotesterService).toSelf().inSingletonScope();
+    bind(MockService).toService(MockAutotesterService);
+    bind(MockHomeworkService).toSelf().inSingletonScope();
+    bind(MockService).toService(MockHomeworkService);
+    bind(MockSessionService).toSelf().inSingletonScope();
+    bind(MockService).toService(MockSessionService);
+    bind(MockUupGameService).toSelf().inSingletonScope();
+    bind(MockService).toService(MockUupGameService);
+});
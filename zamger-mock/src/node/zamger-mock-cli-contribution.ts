@@ -0,0 +1,36 @@
+import * as yargs from 'yargs';
+import { injectable } from 'inversify';
+import { CliContribution } from '@theia/core/lib/node/cli';
+
+/**
+ * Command line options that replace the Zamger services with the mock, e.g.
+ * `yarn --cwd app/ start --zamger-mock --zamger-mock-fixtures=/path/to/fixtures.json`.
+ */
+@injectable()
+export class ZamgerMockCliContribution implements CliContribution {
+
+    static readonly ENABLE_OPTION = 'zamger-mock';
+    static readonly FIXTURES_OPTION = 'zamger-mock-fixtures';
+
+    enabled = false;
+    fixturesPath: string | undefined;
+
+    configure(conf: yargs.Argv): void {
+        conf.option(ZamgerMockCliContribution.ENABLE_OPTION, {
+            description: 'Serve mock Zamger services with seeded fixtures instead of relying on a Zamger server.',
+            type: 'boolean',
+            default: false,
+        });
+        conf.option(ZamgerMockCliContribution.FIXTURES_OPTION, {
+            description: 'JSON file with the fixtures of the mock Zamger services.',
+            type: 'string',
+        });
+    }
+
+    setArguments(args: yargs.Arguments): void {
+        this.enabled = args[ZamgerMockCliContribution.ENABLE_OPTION] === true;
+        const fixturesPath = args[ZamgerMockCliContribution.FIXTURES_OPTION];
+        this.fixturesPath = typeof fixturesPath === 'string' && fixturesPath !== '' ? fixturesPath : undefined;
+    }
+
+}
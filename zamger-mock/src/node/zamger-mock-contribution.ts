@@ -0,0 +1,76 @@
+import * as express from 'express';
+import { injectable, inject, named } from 'inversify';
+import { ContributionProvider } from '@theia/core';
+import { BackendApplicationContribution } from '@theia/core/lib/node';
+import { DEFAULT_ENDPOINTS, Endpoint } from 'top-bar/lib/common/endpoints';
+import { MockFixtures } from './mock-fixtures';
+import { MockService, MockHandler, MockRequestError } from './mock-service';
+import { ZamgerMockCliContribution } from './zamger-mock-cli-contribution';
+
+/**
+ * Serves the mock services at the default endpoint paths, so the IDE talks to them
+ * as long as neither `endpoints.json` nor the preferences point elsewhere.
+ */
+@injectable()
+export class ZamgerMockContribution implements BackendApplicationContribution {
+
+    // Integration tests POST here to drop the state of previous tests
+    static readonly RESET_PATH = '/zamger-mock/reset';
+
+    @inject(ZamgerMockCliContribution)
+    protected readonly cli: ZamgerMockCliContribution;
+
+    @inject(ContributionProvider) @named(MockService)
+    protected readonly services: ContributionProvider<MockService>;
+
+    // Requests wait for the fixtures, which are loaded once the routes are registered
+    private fixturesLoaded: Promise<void> = Promise.resolve();
+
+    configure(app: express.Application): void {
+        if (!this.cli.enabled) {
+            return;
+        }
+
+        console.log(`Serving mock Zamger services with fixtures from ${this.cli.fixturesPath ?? MockFixtures.DEFAULT_PATH}`);
+        this.fixturesLoaded = this.reset();
+        this.fixturesLoaded.catch(err => console.log(`Could not load the mock Zamger fixtures: ${err}`));
+
+        // Only parse the bodies of mock requests, the other routes of the backend parse their own
+        const parseBody = [express.urlencoded({ extended: false }), express.json()];
+        for (const service of this.services.getContributions()) {
+            for (const endpoint of Object.keys(service.handlers) as Endpoint[]) {
+                app.all(DEFAULT_ENDPOINTS[endpoint], parseBody, this.wrap(service.handlers[endpoint]!));
+            }
+        }
+        app.post(ZamgerMockContribution.RESET_PATH, this.wrap(async (_req, res) => {
+            await this.reset();
+            res.json({ success: true });
+        }));
+    }
+
+    private async reset() {
+        const fixtures = await MockFixtures.load(this.cli.fixturesPath);
+        this.services.getContributions().forEach(service => service.reset(fixtures));
+    }
+
+    /**
+     * Answers rejected requests the way `ws.php` and `push.php` do, with the status of the error.
+     */
+    private wrap(handler: MockHandler): express.RequestHandler {
+        return async (req, res) => {
+            try {
+                await this.fixturesLoaded;
+                await handler(req, res);
+            } catch (err) {
+                if (!(err instanceof MockRequestError)) {
+                    console.log(`Mock ${req.path} failed: ${err}`);
+                }
+                if (!res.headersSent) {
+                    const status = err instanceof MockRequestError ? err.status : 500;
+                    res.status(status).json({ success: false, code: status, message: err.message });
+                }
+            }
+        };
+    }
+
+}